@@ -0,0 +1,29 @@
+// alert.model.ts
+export type AlertTargetType = 'all' | 'screen' | 'area' | 'tag';
+export type AlertSeverity = 'info' | 'warning' | 'emergency';
+
+// An urgent message that takes over the screen, as stored in the screen_alerts table
+export interface ScreenAlert {
+  id: string;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  target_type: AlertTargetType;
+  target_ids: string[];         // Screen IDs, area IDs or tag expressions, depending on target_type
+  priority: number;             // Higher wins when several alerts apply
+  starts_at: string | null;     // ISO timestamp, immediately when null
+  expires_at: string | null;    // ISO timestamp, until cleared when null
+  cleared_at: string | null;    // Set when the alert is ended by hand
+  chime: boolean;               // Play a chime when the alert appears
+  chime_url?: string | null;    // Custom chime, a built-in tone when null
+  background_color?: string | null;
+  text_color?: string | null;
+  created_at: string;
+}
+
+// What an alert can be targeted at for this screen
+export interface AlertTargetContext {
+  screenId: string;
+  areaId: string | null;
+  tags: string[];
+}
@@ -8,11 +8,55 @@ export interface Playlist {
   duration: number; // in seconds
   items: PlaylistItem[];
   schedule?: PlaylistSchedule;
-  lastModified: string;
+  lastModified: string; // Latest updated_at of the playlist and its items
   createdBy: string;
   status: 'active' | 'draft' | 'archived';
   tags?: string[];
   settings: PlaylistSettings;
+  zones?: PlaylistZones; // Item sequences for the secondary layout zones
+}
+
+// What a playlist is compared on to find out whether it changed. An item edit
+// may not touch playlists.updated_at, and a removed item leaves no timestamp.
+export interface PlaylistVersion {
+  lastModified: string; // Latest updated_at of the playlist and its items
+  itemCount: number;
+}
+
+// How one item hands over to the next (see features/player/animations/transitions.ts)
+export type TransitionType =
+  | 'none'
+  | 'fade'
+  | 'slide'
+  | 'push'
+  | 'zoom'
+  | 'wipe-left'
+  | 'wipe-right'
+  | 'wipe-up'
+  | 'wipe-down'
+  | 'dissolve' // through black
+  | 'cut-on-beat'; // hard cut on the next beat of the playlist tempo
+
+// A transition as it is played, with the defaults applied
+export interface ItemTransition {
+  type: TransitionType;
+  duration: number; // in milliseconds
+}
+
+// Zones a playlist layout can be split into
+export type LayoutZoneId = 'main' | 'sidebar' | 'ticker';
+
+export interface PlaylistLayout {
+  type: 'fullscreen' | 'main-sidebar' | 'main-ticker' | 'main-sidebar-ticker';
+  sidebarPosition?: 'left' | 'right';
+  sidebarWidth?: number; // percentage of the screen width
+  tickerHeight?: number; // percentage of the screen height
+}
+
+// The main zone plays Playlist.items, the other zones play their own sequence
+export interface PlaylistZones {
+  sidebar?: PlaylistItem[];
+  ticker?: PlaylistItem[];
 }
 
 export interface PlaylistSettings {
@@ -20,8 +64,9 @@ export interface PlaylistSettings {
   loop: boolean;
   defaultMuted: boolean;
   transition: {
-    type: 'fade' | 'slide' | 'none';
-    duration: number;
+    type: TransitionType;
+    duration: number; // in seconds
+    bpm?: number; // tempo for 'cut-on-beat', default 120
   };
   defaultDuration: number; // default duration for static content
   scheduling: {
@@ -30,6 +75,20 @@ export interface PlaylistSettings {
     endDate?: string;
     priority: number;
   };
+  layout?: PlaylistLayout;
+  playbackOrder?: PlaybackOrder; // sequential when unset
+}
+
+// How the main zone picks its next item (see core/services/playback-sequencer.ts)
+export type PlaybackOrderMode =
+  | 'sequential'
+  | 'shuffle' // every item once per round, in a seeded random order
+  | 'weighted' // items play in proportion to settings.weight
+  | 'share-of-voice'; // items get settings.shareOfVoice percent of the airtime in each hour
+
+export interface PlaybackOrder {
+  mode: PlaybackOrderMode;
+  seed?: string | number; // the playlist id when unset
 }
 
 export interface TimeSlot {
@@ -46,25 +105,58 @@ export interface TimeSlot {
   )[];
 }
 
+// An item's own validity window inside its playlist (dayparting), from the playlist_items valid_* columns
+export interface PlaylistItemSchedule {
+  enabled: boolean;
+  startTime?: string | null; // HH:MM, the start of the day when unset
+  endTime?: string | null; // HH:MM, the end of the day when unset
+  daysOfWeek?: string[]; // every day when empty
+  startDate?: string | null; // YYYY-MM-DD, first day the item plays
+  endDate?: string | null; // YYYY-MM-DD, last day the item plays
+  priority: number;
+}
+
 export interface PlaylistItem {
-  schedule: any;
+  schedule?: PlaylistItemSchedule;
   id: string;
   type: 'image' | 'video' | 'webpage' | 'ticker';
   name: string;
   duration: number;
+  zone?: LayoutZoneId;
+  lastModified?: string; // updated_at of the playlist_items row
   content: {
     url: string;
     thumbnail?: string;
+    sha256?: string; // expected hex SHA-256 of the file at url
+    size?: number; // expected size in bytes of the file at url
   };
   settings: {
-    transition: 'fade' | 'slide' | 'none';
-    transitionDuration: number;
+    transition?: TransitionType; // the playlist default when unset
+    transitionDuration?: number; // in seconds, the playlist default when unset
     scaling: 'fit' | 'fill' | 'stretch';
     muted?: boolean;
     loop?: boolean;
+    weight?: number; // relative play frequency in 'weighted' order, default 1
+    shareOfVoice?: number; // percentage of airtime in 'share-of-voice' order
+    ticker?: TickerSettings; // ticker items only
   };
 }
 
+// Text source and look of a ticker item (see features/player/components/ticker-item.component.ts)
+export interface TickerSettings {
+  source?: 'text' | 'feed'; // 'text' when unset: content.url is the text itself
+  maxHeadlines?: number; // headlines taken from a feed, default 10
+  refreshInterval?: number; // seconds between feed refreshes, default 300
+  speed?: number; // scroll speed in pixels per second, default 100
+  direction?: 'ltr' | 'rtl'; // 'rtl' scrolls to the right, for right-to-left scripts
+  fontFamily?: string;
+  fontSize?: string; // any CSS size, default 2rem
+  fontWeight?: string;
+  textColor?: string;
+  backgroundColor?: string; // the band behind the text
+  separator?: string; // between headlines and loop repetitions, default ' • '
+}
+
 export interface CreatePlaylistDto {
   name: string;
   description?: string;
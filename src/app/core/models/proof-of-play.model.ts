@@ -0,0 +1,21 @@
+// proof-of-play.model.ts
+import { LayoutZoneId } from './playlist.model';
+
+// How an item left the screen: it ran its course, was skipped by hand or command, or could not be played
+export type PlayEndReason = 'completed' | 'skipped' | 'failed';
+
+// One play of a playlist item, as stored in the proof_of_play table
+export interface ProofOfPlayRecord {
+  id: string;
+  screen_id: string;
+  playlist_id: string | null;
+  item_id: string;
+  item_name: string;
+  content_url: string | null;
+  zone: LayoutZoneId;
+  started_at: string;
+  ended_at: string;
+  duration_ms: number; // how long the item was actually on screen
+  scheduled_duration: number; // item duration in seconds
+  status: PlayEndReason | 'interrupted';
+}
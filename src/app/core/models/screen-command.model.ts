@@ -0,0 +1,24 @@
+// screen-command.model.ts
+export type ScreenCommandType =
+  | 'reload_playlist'
+  | 'restart_playback'
+  | 'clear_cache'
+  | 'open_diagnostics'
+  | 'screenshot'
+  | 'reboot'
+  | 're_register';
+
+export type ScreenCommandStatus = 'pending' | 'acknowledged' | 'completed' | 'failed';
+
+// A command sent to a screen, as stored in the screen_commands table
+export interface ScreenCommand {
+  id: string;
+  screen_id: string;
+  command: ScreenCommandType;
+  payload?: Record<string, any> | null;
+  status: ScreenCommandStatus;
+  created_at: string;
+  acknowledged_at?: string | null;
+  completed_at?: string | null;
+  result?: Record<string, any> | null; // Outcome reported by the player, or the error
+}
@@ -44,27 +44,14 @@ export interface CreateScreenDto {
     channel_id: string;
     channel_name: string;
     area_id: string;
-    status: 'online' | 'offline' | 'maintenance' | 'error';
+    status: 'online' | 'offline' | 'maintenance' | 'error' | 'sleeping';
     resolution: string;
     orientation: 'landscape' | 'portrait';
     last_ping: string;
     current_playlist: string | null;
     current_playlist_started_at: string | null;  // Add this field
     next_playlist: string | null;
-    schedule: {
-      current: {
-        playlist_id: string;
-        start_time: string;
-        end_time: string;
-        priority: number;
-      } | null;
-      upcoming: Array<{
-        playlist_id: string;
-        start_time: string;
-        end_time: string;
-        priority: number;
-      }>;
-    } | null;
+    schedule: ScreenSchedule | null;
     hardware: ScreenHardware;
     network: NetworkConfig;
     location: LocationInfo;
@@ -113,16 +100,20 @@ export interface CreateScreenDto {
     auto_start: boolean;
     auto_update: boolean;
     remote_control: boolean;
-    power_schedule: {
-      enabled: boolean;
-      power_on: string;
-      power_off: string;
-      days_active: string[];
-    };
+    power_schedule: PowerSchedule;
     content_caching: boolean;
     fallback_content: string;
     refresh_interval: number;
     screen_rotation: number;
+    timezone?: string; // IANA name, e.g. "Europe/Amsterdam"; the device time zone when unset
+  }
+  
+  // Business hours of the display; outside them the player sleeps
+  export interface PowerSchedule {
+    enabled: boolean;
+    power_on: string; // HH:MM
+    power_off: string; // HH:MM
+    days_active: string[];
   }
   
   export interface ScreenAnalytics {
@@ -160,6 +151,10 @@ export interface CreateScreenDto {
     end_time: string;
     priority: number;
     days_of_week?: string[]; 
+    start_date?: string | null;       // YYYY-MM-DD, first day the entry applies
+    end_date?: string | null;         // YYYY-MM-DD, last day the entry applies
+    date?: string | null;             // YYYY-MM-DD, one-off entry for a single day (holidays)
+    blackout_dates?: string[] | null; // YYYY-MM-DD days on which the entry is skipped
   }
   
   export interface PlaylistSchedule extends PlaylistScheduleBase {
@@ -167,6 +162,15 @@ export interface CreateScreenDto {
     days_of_week: string[];
   }
   
+  // A playlist assigned to every screen whose tags match an expression (tag_assignments).
+  // Without start_time/end_time it is a standing assignment instead of a schedule.
+  export interface TagAssignment extends Omit<PlaylistScheduleBase, 'start_time' | 'end_time'> {
+    id: string;
+    tag_expression: string; // e.g. "region:north AND type:menuboard"
+    start_time?: string | null;
+    end_time?: string | null;
+  }
+  
   export interface ScreenSchedule {
     current: PlaylistScheduleBase | null;
     upcoming: PlaylistScheduleBase[];
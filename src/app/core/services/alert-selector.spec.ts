@@ -0,0 +1,82 @@
+import { isAlertActive, isAlertTargeted, nextAlertChange, selectAlert } from './alert-selector';
+import { AlertTargetContext, ScreenAlert } from '../models/alert.model';
+
+const alert = (id: string, changes: Partial<ScreenAlert> = {}): ScreenAlert => ({
+  id,
+  title: id,
+  message: '',
+  severity: 'info',
+  target_type: 'all',
+  target_ids: [],
+  priority: 0,
+  starts_at: null,
+  expires_at: null,
+  cleared_at: null,
+  chime: false,
+  created_at: '2024-01-01T09:00:00Z',
+  ...changes
+});
+
+describe('alert selection', () => {
+  const context: AlertTargetContext = { screenId: 'screen-1', areaId: 'area-1', tags: ['lobby', 'north'] };
+  const now = new Date('2024-01-01T10:00:00Z');
+
+  describe('isAlertTargeted', () => {
+    it('should match the screen, its area and its tags', () => {
+      expect(isAlertTargeted(alert('a'), context)).toBeTrue();
+      expect(isAlertTargeted(alert('a', { target_type: 'screen', target_ids: ['screen-1'] }), context)).toBeTrue();
+      expect(isAlertTargeted(alert('a', { target_type: 'screen', target_ids: ['screen-2'] }), context)).toBeFalse();
+      expect(isAlertTargeted(alert('a', { target_type: 'area', target_ids: ['area-1'] }), context)).toBeTrue();
+      expect(isAlertTargeted(alert('a', { target_type: 'tag', target_ids: ['south', 'north'] }), context)).toBeTrue();
+      expect(isAlertTargeted(alert('a', { target_type: 'tag', target_ids: ['south'] }), context)).toBeFalse();
+    });
+
+    it('should not match an area alert when the screen has no area', () => {
+      const withoutArea = { ...context, areaId: null };
+      expect(isAlertTargeted(alert('a', { target_type: 'area', target_ids: ['area-1'] }), withoutArea)).toBeFalse();
+    });
+  });
+
+  describe('isAlertActive', () => {
+    it('should follow the start, expiry and clearing of an alert', () => {
+      expect(isAlertActive(alert('a'), now)).toBeTrue();
+      expect(isAlertActive(alert('a', { starts_at: '2024-01-01T10:30:00Z' }), now)).toBeFalse();
+      expect(isAlertActive(alert('a', { expires_at: '2024-01-01T10:00:00Z' }), now)).toBeFalse();
+      expect(isAlertActive(alert('a', { expires_at: '2024-01-01T10:00:01Z' }), now)).toBeTrue();
+      expect(isAlertActive(alert('a', { cleared_at: '2024-01-01T09:30:00Z' }), now)).toBeFalse();
+    });
+  });
+
+  describe('selectAlert', () => {
+    it('should prefer priority, then severity, then the newest alert', () => {
+      const info = alert('info', { created_at: '2024-01-01T09:50:00Z' });
+      const emergency = alert('emergency', { severity: 'emergency' });
+      const urgentInfo = alert('urgent-info', { priority: 10 });
+
+      expect(selectAlert([info, emergency], context, now)?.id).toBe('emergency');
+      expect(selectAlert([info, emergency, urgentInfo], context, now)?.id).toBe('urgent-info');
+      expect(selectAlert([alert('old'), info], context, now)?.id).toBe('info');
+    });
+
+    it('should skip alerts for other screens and inactive alerts', () => {
+      const elsewhere = alert('elsewhere', { severity: 'emergency', target_type: 'screen', target_ids: ['screen-2'] });
+      const expired = alert('expired', { severity: 'emergency', expires_at: '2024-01-01T09:00:00Z' });
+
+      expect(selectAlert([elsewhere, expired, alert('mine')], context, now)?.id).toBe('mine');
+      expect(selectAlert([elsewhere, expired], context, now)).toBeNull();
+    });
+  });
+
+  describe('nextAlertChange', () => {
+    it('should return the next start or expiry', () => {
+      const alerts = [
+        alert('a', { expires_at: '2024-01-01T11:00:00Z' }),
+        alert('b', { starts_at: '2024-01-01T10:15:00Z', expires_at: '2024-01-01T10:45:00Z' }),
+        alert('c', { starts_at: '2024-01-01T10:05:00Z', cleared_at: '2024-01-01T09:55:00Z' })
+      ];
+
+      expect(nextAlertChange(alerts, now)?.toISOString()).toBe('2024-01-01T10:15:00.000Z');
+      expect(nextAlertChange(alerts, new Date('2024-01-01T11:00:00Z'))).toBeNull();
+    });
+  });
+});
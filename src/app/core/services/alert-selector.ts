@@ -0,0 +1,77 @@
+// alert-selector.ts
+import { AlertSeverity, AlertTargetContext, ScreenAlert } from '../models/alert.model';
+import { matchesTagExpression } from './tag-expression';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  emergency: 2
+};
+
+/**
+ * Check whether an alert is aimed at this screen, directly, through its area
+ * or through its tags. Tag targets may be tag expressions.
+ */
+export function isAlertTargeted(alert: ScreenAlert, context: AlertTargetContext): boolean {
+  const targets = alert.target_ids || [];
+
+  switch (alert.target_type) {
+    case 'all':
+      return true;
+    case 'screen':
+      return targets.includes(context.screenId);
+    case 'area':
+      return !!context.areaId && targets.includes(context.areaId);
+    case 'tag':
+      return targets.some(expression => matchesTagExpression(expression, context.tags));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether an alert should be showing at the given moment
+ */
+export function isAlertActive(alert: ScreenAlert, now: Date): boolean {
+  if (alert.cleared_at) {
+    return false;
+  }
+
+  const time = now.getTime();
+  if (alert.starts_at && Date.parse(alert.starts_at) > time) {
+    return false;
+  }
+  if (alert.expires_at && Date.parse(alert.expires_at) <= time) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Pick the alert to show: the highest priority, then the most severe, then the newest
+ */
+export function selectAlert(alerts: ScreenAlert[], context: AlertTargetContext, now: Date): ScreenAlert | null {
+  const candidates = alerts
+    .filter(alert => isAlertActive(alert, now) && isAlertTargeted(alert, context))
+    .sort((a, b) =>
+      (b.priority || 0) - (a.priority || 0) ||
+      (SEVERITY_RANK[b.severity] ?? 0) - (SEVERITY_RANK[a.severity] ?? 0) ||
+      Date.parse(b.created_at) - Date.parse(a.created_at)
+    );
+
+  return candidates[0] || null;
+}
+
+/**
+ * The next moment an alert starts or expires, to re-evaluate right then
+ */
+export function nextAlertChange(alerts: ScreenAlert[], now: Date): Date | null {
+  const time = now.getTime();
+  const upcoming = alerts
+    .filter(alert => !alert.cleared_at)
+    .flatMap(alert => [alert.starts_at, alert.expires_at])
+    .map(value => value ? Date.parse(value) : NaN)
+    .filter(value => !isNaN(value) && value > time);
+
+  return upcoming.length ? new Date(Math.min(...upcoming)) : null;
+}
@@ -0,0 +1,276 @@
+// alert.service.ts
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, forkJoin } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+import { LogService } from './log.service';
+import { PlaybackService } from './playback.service';
+import { SupabaseApiService } from './supabase-api.service';
+import { supabase } from './supabase.config';
+import { nextAlertChange, selectAlert } from './alert-selector';
+import { AlertTargetContext, ScreenAlert } from '../models/alert.model';
+import { environment } from '../../../environments/environment';
+
+/**
+ * Shows urgent alerts (screen_alerts) aimed at this screen, its area or its
+ * tags. An alert interrupts playback right away, also while the display sleeps,
+ * and playback resumes the interrupted item where it stopped once the alert
+ * expires or is cleared. The last known alerts are kept so an alert outlives a
+ * reload or an outage.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertService implements OnDestroy {
+  private readonly ALERTS_KEY = 'screenAlerts';
+  private readonly CONTEXT_KEY = 'alertTargetContext';
+  private readonly MAX_TIMEOUT = 2147483647; // Longest delay setTimeout supports
+  private readonly REFRESH_DELAY = 1000; // Collects a burst of alert changes into one fetch
+  private readonly REFRESH_JITTER = 4000; // Spreads the fetches of all screens after a change
+
+  private activeAlertSubject = new BehaviorSubject<ScreenAlert | null>(null);
+  activeAlert$ = this.activeAlertSubject.pipe(distinctUntilChanged((a, b) => a?.id === b?.id));
+
+  private alerts: ScreenAlert[] = [];
+  private context: AlertTargetContext | null = null;
+  private channel: any = null;
+  private pollInterval: any = null;
+  private boundaryTimeout: any = null;
+  private refreshTimeout: any = null;
+  private chime: HTMLAudioElement | null = null;
+  private readonly onOnline = () => this.refresh();
+
+  constructor(
+    private logService: LogService,
+    private playbackService: PlaybackService,
+    private supabaseApi: SupabaseApiService
+  ) {
+    try {
+      this.alerts = JSON.parse(localStorage.getItem(this.ALERTS_KEY) || '[]');
+      this.context = JSON.parse(localStorage.getItem(this.CONTEXT_KEY) || 'null');
+    } catch (e) {
+      this.alerts = [];
+      this.context = null;
+    }
+  }
+
+  get activeAlert(): ScreenAlert | null {
+    return this.activeAlertSubject.value;
+  }
+
+  /**
+   * Start following the alerts for this screen
+   */
+  start(): void {
+    const deviceId = localStorage.getItem('deviceId');
+    if (!deviceId) {
+      this.logService.warn('No device ID found, alerts are disabled');
+      return;
+    }
+    if (this.channel) {
+      return;
+    }
+
+    // Targeting is matched here, so every alert change is a reason to look again
+    this.channel = supabase
+      .channel('screen_alerts_channel')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'screen_alerts' },
+        () => this.scheduleAlertsRefresh()
+      )
+      .subscribe();
+
+    this.pollInterval = setInterval(() => this.refresh(), environment.alertPollInterval);
+    window.addEventListener('online', this.onOnline);
+
+    // Show a stored alert straight away, before the first fetch returns
+    this.evaluate();
+    this.refresh();
+  }
+
+  /**
+   * Stop following alerts and give the screen back to playback
+   */
+  stop(): void {
+    if (this.channel) {
+      this.channel.unsubscribe();
+      this.channel = null;
+    }
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.clearBoundaryTimeout();
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+    window.removeEventListener('online', this.onOnline);
+    this.show(null);
+  }
+
+  /**
+   * Refetch the alerts after a change. Every change reaches every screen, so the
+   * changes of a moment are taken together and the screens don't all query at
+   * once. The screen's area and tags are left to the regular refresh.
+   */
+  private scheduleAlertsRefresh(): void {
+    if (this.refreshTimeout) {
+      return;
+    }
+
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null;
+      this.refreshAlerts();
+    }, this.REFRESH_DELAY + Math.random() * this.REFRESH_JITTER);
+  }
+
+  private refreshAlerts(): void {
+    if (!navigator.onLine) {
+      return;
+    }
+
+    this.supabaseApi.getOpenAlerts().subscribe(alerts => {
+      if (alerts) {
+        this.storeAlerts(alerts);
+        this.evaluate();
+      }
+    });
+  }
+
+  private storeAlerts(alerts: ScreenAlert[]): void {
+    this.alerts = alerts;
+    localStorage.setItem(this.ALERTS_KEY, JSON.stringify(alerts));
+  }
+
+  /**
+   * Fetch the open alerts and what they can be targeted at
+   */
+  private refresh(): void {
+    const deviceId = localStorage.getItem('deviceId');
+    if (!deviceId || !navigator.onLine) {
+      this.evaluate();
+      return;
+    }
+
+    forkJoin({
+      screen: this.supabaseApi.getScreenById(deviceId),
+      area: this.supabaseApi.getScreenArea(deviceId),
+      alerts: this.supabaseApi.getOpenAlerts()
+    }).subscribe(({ screen, area, alerts }) => {
+      if (screen) {
+        this.context = {
+          screenId: deviceId,
+          areaId: area?.area_id || screen.area_id || null,
+          tags: screen.tags || []
+        };
+        localStorage.setItem(this.CONTEXT_KEY, JSON.stringify(this.context));
+      }
+
+      // Keep the last known alerts when the fetch failed
+      if (alerts) {
+        this.storeAlerts(alerts);
+      }
+
+      this.evaluate();
+    });
+  }
+
+  /**
+   * Show the alert that applies right now and wake up again at the next start or expiry
+   */
+  private evaluate(): void {
+    const now = new Date();
+    const context = this.context || { screenId: localStorage.getItem('deviceId') || '', areaId: null, tags: [] };
+    this.show(selectAlert(this.alerts, context, now));
+
+    this.clearBoundaryTimeout();
+    const next = nextAlertChange(this.alerts, now);
+    if (next) {
+      const delay = Math.min(next.getTime() - now.getTime() + 100, this.MAX_TIMEOUT);
+      this.boundaryTimeout = setTimeout(() => this.evaluate(), delay);
+    }
+  }
+
+  private show(alert: ScreenAlert | null): void {
+    const current = this.activeAlertSubject.value;
+    if (alert?.id === current?.id) {
+      // Same alert, possibly with an edited text
+      if (alert) {
+        this.activeAlertSubject.next(alert);
+      }
+      return;
+    }
+
+    this.activeAlertSubject.next(alert);
+
+    if (alert) {
+      this.logService.warn(`Showing ${alert.severity} alert: ${alert.title}`);
+      this.playbackService.interrupt();
+      if (alert.chime) {
+        this.playChime(alert.chime_url);
+      }
+    } else {
+      this.logService.info(`Alert ${current?.title} ended, resuming playback`);
+      this.stopChime();
+      this.playbackService.resumeAfterInterrupt();
+    }
+  }
+
+  private playChime(url?: string | null): void {
+    this.stopChime();
+
+    if (url) {
+      this.chime = new Audio(url);
+      this.chime.play().catch(error => {
+        this.logService.warn(`Alert chime could not be played: ${error}`);
+        this.playTone();
+      });
+    } else {
+      this.playTone();
+    }
+  }
+
+  /**
+   * Built-in two-tone chime, so an alert doesn't depend on a downloaded sound
+   */
+  private playTone(): void {
+    try {
+      const audio = new AudioContext();
+      [880, 660].forEach((frequency, i) => {
+        const start = audio.currentTime + i * 0.4;
+        const oscillator = audio.createOscillator();
+        const gain = audio.createGain();
+
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.4, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+
+        oscillator.connect(gain).connect(audio.destination);
+        oscillator.start(start);
+        oscillator.stop(start + 0.6);
+      });
+      setTimeout(() => audio.close(), 1500);
+    } catch (error) {
+      this.logService.warn(`Alert chime could not be played: ${error}`);
+    }
+  }
+
+  private stopChime(): void {
+    if (this.chime) {
+      this.chime.pause();
+      this.chime = null;
+    }
+  }
+
+  private clearBoundaryTimeout(): void {
+    if (this.boundaryTimeout) {
+      clearTimeout(this.boundaryTimeout);
+      this.boundaryTimeout = null;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+}
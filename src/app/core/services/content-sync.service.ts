@@ -1,10 +1,49 @@
 // content-sync.service.ts
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, of, from, throwError } from 'rxjs';
-import { catchError, map, tap, retry } from 'rxjs/operators';
+import { HttpClient, HttpHeaders, HttpResponse } from '@angular/common/http';
+import { Observable, of, from, throwError, defer, firstValueFrom } from 'rxjs';
+import { catchError, map, tap, retry, switchMap, share, finalize } from 'rxjs/operators';
 import { LogService } from './log.service';
-import { Playlist } from './../models/playlist.model';
+import { TimeZoneService } from './time-zone.service';
+import { SupabaseApiService } from './supabase-api.service';
+import { PlaylistDiff, diffPlaylists, getAllPlaylistItems, hasContentChanged } from './playlist-diff';
+import { Playlist, PlaylistItem } from './../models/playlist.model';
+import { ScheduleResolver, ScheduleTimeline } from './schedule-resolver';
+import { Sha256 } from './sha256';
+import { environment } from '../../../environments/environment';
+
+/**
+ * Order of the download queue: what is on screen, what plays next, the rest of the
+ * current playlists, and pre-caching of upcoming schedules (only in quiet hours).
+ */
+export type DownloadPriority = 'current' | 'next' | 'playlist' | 'prefetch';
+
+/**
+ * Browser storage as reported by the Storage API, next to the content cache
+ */
+export interface StorageStatus {
+  quota: number | null; // bytes, null when the browser doesn't report it
+  usage: number | null;
+  persisted: boolean;
+  cacheSize: number;
+  cacheLimit: number;
+}
+
+/**
+ * Outcome of syncing a playlist against the server
+ */
+export interface PlaylistSyncResult {
+  playlist: Playlist | null; // the up-to-date playlist, or the cached one if it couldn't be fetched
+  changed: boolean;
+  diff: PlaylistDiff | null;
+}
+
+const DOWNLOAD_PRIORITY_RANK: Record<DownloadPriority, number> = {
+  current: 0,
+  next: 1,
+  playlist: 2,
+  prefetch: 3
+};
 
 // Interface to track cached content
 interface CachedContent {
@@ -14,6 +53,33 @@ interface CachedContent {
   timestamp: number;
   type: string;
   blob?: Blob; // Store the actual blob to recreate object URLs when needed
+  sha256?: string; // Hex SHA-256 of the blob, when it was verified
+}
+
+// What a file has to match before it is cached or played from the cache
+interface ExpectedContent {
+  itemId?: string;
+  sha256?: string;
+  size?: number;
+  media: boolean; // An image or video, so never an HTML page
+}
+
+// A large file that is being downloaded in chunks
+interface PartialDownload {
+  url: string;
+  size: number;
+  chunkSize: number;
+  type: string;
+  validator: string | null; // ETag or Last-Modified, so a changed file restarts the download
+  expected: ExpectedContent;
+  startedAt: number;
+}
+
+// A download waiting for a free slot in the queue
+interface QueuedDownload {
+  url: string;
+  priority: DownloadPriority;
+  start: () => void;
 }
 
 @Injectable({
@@ -23,18 +89,48 @@ export class ContentSyncService {
   private readonly DB_NAME = 'digital-signage-cache';
   private readonly CONTENT_STORE = 'content';
   private readonly PLAYLIST_STORE = 'playlists';
-  private readonly MAX_CACHE_SIZE = 1024 * 1024 * 500; // 500 MB cache limit
+  private readonly SCHEDULE_STORE = 'schedule';
+  private readonly DOWNLOAD_STORE = 'downloads';
+  private readonly CHUNK_STORE = 'chunks';
+  private readonly CHUNK_SIZE = 1024 * 1024 * 8; // 8 MB per range request
+  private readonly MIN_CHUNK_SIZE = 1024 * 64; // Smallest range request under a bandwidth cap
+  private readonly CHUNK_SECONDS = 2; // Under a bandwidth cap, a chunk holds this much transfer time
+  private readonly HASH_SLICE_SIZE = 1024 * 1024 * 4; // Largest piece read into memory to hash a file
   private db: IDBDatabase | null = null;
   private cacheSizeBytes = 0;
   private isInitialized = false;
   private blobCache: Map<string, string> = new Map(); // Track active blob URLs
   private initPromise: Promise<boolean> | null = null;
+  private preloadingPaused = false;
+  private activeDownloads = new Map<string, Observable<string>>();
+  private downloadPriorities = new Map<string, DownloadPriority>();
+  private downloadQueue: QueuedDownload[] = [];
+  private runningDownloads = 0;
+  private queueCheckTimeout: any = null;
+  private bandwidthAvailableAt = 0;
+  private pinnedPlaylists = new Map<string, Set<string>>();
+  private pinnedUrls = new Map<string, Set<string>>(); // Content of pinned playlists held in memory
+  private isTrimming = false;
+  private maxCacheSize = environment.maxCacheSize; // Adjusted to the storage quota once known
+  private storageQuota: number | null = null;
+  private storageUsage: number | null = null;
+  private storagePersisted = false;
 
   constructor(
     private http: HttpClient,
-    private logService: LogService
+    private logService: LogService,
+    private timeZoneService: TimeZoneService,
+    private supabaseApi: SupabaseApiService
   ) {
     this.initPromise = this.initDatabase();
+
+    if (typeof window !== 'undefined') {
+      this.initStorage();
+
+      // Pick up interrupted downloads after a reboot and when the connection returns
+      this.initPromise.then(() => this.resumePartialDownloads()).catch(() => {});
+      window.addEventListener('online', () => this.resumePartialDownloads());
+    }
   }
 
   /**
@@ -43,7 +139,7 @@ export class ContentSyncService {
   private initDatabase(): Promise<boolean> {
     return new Promise((resolve, reject) => {
       try {
-        const request = indexedDB.open(this.DB_NAME, 2); // Version 2 schema
+        const request = indexedDB.open(this.DB_NAME, 4); // Version 4 schema
 
         request.onerror = (event) => {
           this.logService.error('Database error: ' + (event.target as any).errorCode);
@@ -64,6 +160,19 @@ export class ContentSyncService {
             const playlistStore = db.createObjectStore(this.PLAYLIST_STORE, { keyPath: 'id' });
             playlistStore.createIndex('timestamp', 'timestamp', { unique: false });
           }
+          
+          // Create schedule timeline store (added in version 3)
+          if (!db.objectStoreNames.contains(this.SCHEDULE_STORE)) {
+            db.createObjectStore(this.SCHEDULE_STORE, { keyPath: 'id' });
+          }
+
+          // Create partial download stores (added in version 4)
+          if (!db.objectStoreNames.contains(this.DOWNLOAD_STORE)) {
+            db.createObjectStore(this.DOWNLOAD_STORE, { keyPath: 'url' });
+          }
+          if (!db.objectStoreNames.contains(this.CHUNK_STORE)) {
+            db.createObjectStore(this.CHUNK_STORE, { keyPath: ['url', 'index'] });
+          }
         };
 
         request.onsuccess = (event) => {
@@ -107,7 +216,7 @@ export class ContentSyncService {
         this.logService.info(`Cache size: ${(this.cacheSizeBytes / (1024 * 1024)).toFixed(2)} MB`);
 
         // If cache is approaching size limit, trim oldest content
-        if (this.cacheSizeBytes > this.MAX_CACHE_SIZE * 0.9) {
+        if (this.cacheSizeBytes > this.maxCacheSize * 0.9) {
           this.trimCache();
         }
       };
@@ -121,16 +230,33 @@ export class ContentSyncService {
   }
 
   /**
-   * Get the local URL for a content item, downloading it if not cached
+   * Get the local URL for a content item, downloading it if not cached.
+   * Pass the playlist item to verify the file against its expected checksum and size.
    */
-  getLocalContentUrl(originalUrl: string): Observable<string> {
+  getLocalContentUrl(originalUrl: string, item?: PlaylistItem, priority: DownloadPriority = 'current'): Observable<string> {
     // If originalUrl is empty or invalid, return an observable that emits the original URL
     if (!originalUrl || typeof originalUrl !== 'string') {
       return of(originalUrl || '');
     }
 
+    const expected = this.getExpectedContent(originalUrl, item);
+
     // Return a new observable that will check cache and download if needed
     return new Observable<string>(observer => {
+      const download = () => {
+        this.downloadContent(originalUrl, expected, priority).subscribe(
+          localUrl => {
+            observer.next(localUrl);
+            observer.complete();
+          },
+          error => {
+            this.logService.error(`Failed to download content ${this.describeContent(originalUrl, expected)}: ${error.message}`);
+            observer.next(originalUrl); // Fall back to original URL
+            observer.complete();
+          }
+        );
+      };
+
       this.ensureInitialized().then(initialized => {
         if (!initialized || !this.db) {
           observer.next(originalUrl);
@@ -160,51 +286,33 @@ export class ContentSyncService {
               
               // If the cached blob is available, create a new blob URL
               if (cachedContent.blob) {
-                try {
+                // A blob that doesn't match what was stored was cut short while writing
+                const cachedExpected = { ...expected, size: expected.size || cachedContent.size };
+
+                this.verifyContent(cachedContent.blob, cachedExpected, cachedContent.sha256).then(sha256 => {
                   // Create a new blob URL from the stored blob
-                  const newLocalUrl = URL.createObjectURL(cachedContent.blob);
+                  const newLocalUrl = URL.createObjectURL(cachedContent.blob!);
                   
                   // Update the cache entry with the new URL
-                  this.updateCachedUrl(originalUrl, newLocalUrl);
+                  this.updateCachedUrl(originalUrl, newLocalUrl, sha256);
                   
                   // Track this blob URL
                   this.blobCache.set(originalUrl, newLocalUrl);
                   
                   observer.next(newLocalUrl);
                   observer.complete();
-                } catch (error) {
-                  this.logService.error(`Error creating blob URL: ${error}`);
-                  // Fall back to original URL on error
-                  observer.next(originalUrl);
-                  observer.complete();
-                }
+                }).catch(error => {
+                  // Corrupt or outdated, fetch it again
+                  this.logService.warn(`Cached content ${this.describeContent(originalUrl, expected)} failed verification, downloading again: ${error.message}`);
+                  this.deleteFromCache(originalUrl).subscribe(() => download());
+                });
               } else {
                 // If we don't have the blob stored (old cache format), download again
-                this.downloadContent(originalUrl).subscribe(
-                  localUrl => {
-                    observer.next(localUrl);
-                    observer.complete();
-                  },
-                  error => {
-                    this.logService.error(`Failed to download content: ${error.message}`);
-                    observer.next(originalUrl); // Fall back to original URL
-                    observer.complete();
-                  }
-                );
+                download();
               }
             } else {
               // Content not in cache, download it
-              this.downloadContent(originalUrl).subscribe(
-                localUrl => {
-                  observer.next(localUrl);
-                  observer.complete();
-                },
-                error => {
-                  this.logService.error(`Failed to download content: ${error.message}`);
-                  observer.next(originalUrl); // Fall back to original URL
-                  observer.complete();
-                }
-              );
+              download();
             }
           };
 
@@ -229,7 +337,7 @@ export class ContentSyncService {
   /**
    * Update the cached URL for a content item
    */
-  private updateCachedUrl(url: string, newLocalUrl: string): void {
+  private updateCachedUrl(url: string, newLocalUrl: string, sha256?: string): void {
     if (!this.db) return;
 
     try {
@@ -252,8 +360,11 @@ export class ContentSyncService {
             }
           }
           
-          // Update with new URL
+          // Update with new URL, and remember the hash so it is only computed once
           cachedContent.localUrl = newLocalUrl;
+          if (sha256) {
+            cachedContent.sha256 = sha256;
+          }
           store.put(cachedContent);
         }
       };
@@ -266,15 +377,85 @@ export class ContentSyncService {
     }
   }
 
+  /**
+   * Ask for persistent storage so the browser doesn't evict the cache under
+   * storage pressure, and size the cache to the storage quota
+   */
+  private async initStorage(): Promise<void> {
+    if (!navigator.storage) {
+      this.logService.warn('Storage API not available, using the default cache size');
+      return;
+    }
+
+    try {
+      this.storagePersisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+      if (!this.storagePersisted && navigator.storage.persist) {
+        this.storagePersisted = await navigator.storage.persist();
+      }
+      this.logService.info(`Persistent storage ${this.storagePersisted ? 'granted' : 'not granted'}`);
+    } catch (error) {
+      this.logService.warn(`Could not request persistent storage: ${error}`);
+    }
+
+    await this.getStorageStatus();
+  }
+
+  /**
+   * Query the storage estimate, resize the cache to the configured share of the
+   * quota and report it along with the persistence state
+   */
+  async getStorageStatus(): Promise<StorageStatus> {
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      try {
+        const estimate = await navigator.storage.estimate();
+        this.storageQuota = estimate.quota ?? null;
+        this.storageUsage = estimate.usage ?? null;
+
+        if (this.storageQuota) {
+          const cacheLimit = Math.floor(this.storageQuota * environment.cacheQuotaFraction);
+          if (cacheLimit !== this.maxCacheSize) {
+            this.maxCacheSize = cacheLimit;
+            this.logService.info(`Cache limit set to ${(cacheLimit / (1024 * 1024)).toFixed(0)} MB ` +
+              `of ${(this.storageQuota / (1024 * 1024)).toFixed(0)} MB storage quota`);
+
+            if (this.cacheSizeBytes > this.maxCacheSize) {
+              this.trimCache();
+            }
+          }
+        }
+      } catch (error) {
+        this.logService.warn(`Could not estimate storage: ${error}`);
+      }
+    }
+
+    return {
+      quota: this.storageQuota,
+      usage: this.storageUsage,
+      persisted: this.storagePersisted,
+      cacheSize: this.cacheSizeBytes,
+      cacheLimit: this.maxCacheSize
+    };
+  }
+
+  /**
+   * Pause or resume background preloading, e.g. while the display sleeps
+   */
+  setPreloadingPaused(paused: boolean): void {
+    if (this.preloadingPaused !== paused) {
+      this.preloadingPaused = paused;
+      this.logService.info(`Content preloading ${paused ? 'paused' : 'resumed'}`);
+    }
+  }
+
   /**
    * Preload content without waiting for the result
    */
-  preloadContent(url: string): void {
-    if (!url || typeof url !== 'string') {
+  preloadContent(url: string, item?: PlaylistItem, priority: DownloadPriority = 'playlist'): void {
+    if (!url || typeof url !== 'string' || this.preloadingPaused) {
       return;
     }
 
-    this.getLocalContentUrl(url).subscribe(
+    this.getLocalContentUrl(url, item, priority).subscribe(
       () => {
         // Content is now cached
         this.logService.debug(`Content preloaded: ${url}`);
@@ -286,22 +467,41 @@ export class ContentSyncService {
   }
 
   /**
-   * Download content and store in IndexedDB
+   * Download content, verify it and store it in IndexedDB
    */
-  private downloadContent(url: string): Observable<string> {
+  private downloadContent(url: string, expected: ExpectedContent, priority: DownloadPriority): Observable<string> {
     if (!url || typeof url !== 'string') {
       return throwError('Invalid URL provided');
     }
 
-    return this.http.get(url, { responseType: 'blob' }).pipe(
-      retry(2), // Retry failed downloads up to 2 times
+    // Share a download that is already queued or running instead of starting it twice
+    const active = this.activeDownloads.get(url);
+    if (active) {
+      this.raiseDownloadPriority(url, priority);
+      return active;
+    }
+
+    this.downloadPriorities.set(url, priority);
+
+    // Every attempt waits for a slot in the download queue
+    const attempt$ = defer(() => from(this.acquireDownloadSlot(url)).pipe(
+      switchMap(() => this.fetchContent(url, expected)),
+      finalize(() => this.releaseDownloadSlot())
+    ));
+
+    const download$ = attempt$.pipe(
       tap(blob => {
         this.logService.info(`Downloaded content: ${url}, size: ${blob.size} bytes`);
       }),
-      map(blob => {
+      // A truncated file or a captive portal page must never end up in the cache
+      switchMap(blob => from(this.verifyContent(blob, expected)).pipe(
+        map(sha256 => ({ blob, sha256 }))
+      )),
+      retry(2), // Retry failed or corrupt downloads up to 2 times
+      map(({ blob, sha256 }) => {
         // Store the blob in IndexedDB
         const localUrl = URL.createObjectURL(blob);
-        this.storeContent(url, localUrl, blob);
+        this.storeContent(url, localUrl, blob, sha256);
         
         // Track this blob URL
         this.blobCache.set(url, localUrl);
@@ -309,16 +509,400 @@ export class ContentSyncService {
         return localUrl;
       }),
       catchError(error => {
-        this.logService.error(`Error downloading content: ${error.message}`);
+        this.logService.error(`Error downloading content ${this.describeContent(url, expected)}: ${error.message}`);
         throw error;
-      })
+      }),
+      finalize(() => {
+        this.activeDownloads.delete(url);
+        this.downloadPriorities.delete(url);
+      }),
+      share()
     );
+
+    this.activeDownloads.set(url, download$);
+    return download$;
+  }
+
+  /**
+   * Fetch a file. Files larger than one chunk are fetched with Range requests and
+   * every chunk is kept in IndexedDB, so a dropped connection or a reboot resumes
+   * where it stopped. The file only becomes playable once all chunks are present.
+   */
+  private async fetchContent(url: string, expected: ExpectedContent): Promise<Blob> {
+    let partial = await this.getPartialDownload(url);
+
+    if (!partial) {
+      const chunkSize = this.getChunkSize();
+      await this.waitForBandwidth(url);
+      const response = await firstValueFrom(this.requestRange(url, 0, chunkSize - 1));
+      this.consumeBandwidth(response.body?.size || 0);
+      const body = response.body || new Blob();
+      const size = this.parseContentRangeSize(response.headers.get('Content-Range'));
+
+      // The server ignored the range and sent the whole file
+      if (response.status !== 206) {
+        return body;
+      }
+
+      // Without a readable total size the chunks can't be planned
+      if (size === null) {
+        const blob = await firstValueFrom(this.http.get(url, { responseType: 'blob' }));
+        this.consumeBandwidth(blob.size);
+        return blob;
+      }
+
+      if (size <= chunkSize) {
+        return body;
+      }
+
+      const etag = response.headers.get('ETag');
+      partial = {
+        url,
+        size,
+        chunkSize,
+        type: body.type,
+        // Weak ETags can't be used with If-Range
+        validator: etag && !etag.startsWith('W/') ? etag : response.headers.get('Last-Modified'),
+        expected,
+        startedAt: Date.now()
+      };
+
+      await this.putPartialDownload(partial);
+      await this.putChunk(url, 0, body);
+      this.logService.info(`Downloading ${url} in ${Math.ceil(size / chunkSize)} chunks (${(size / (1024 * 1024)).toFixed(1)} MB)`);
+    }
+
+    const chunkCount = Math.ceil(partial.size / partial.chunkSize);
+    const present = new Set(await this.getChunkIndexes(url));
+
+    if (present.size > 0 && present.size < chunkCount) {
+      this.logService.info(`Resuming download of ${url} at chunk ${present.size + 1}/${chunkCount}`);
+    }
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (present.has(index)) {
+        continue;
+      }
+
+      const start = index * partial.chunkSize;
+      const end = Math.min(start + partial.chunkSize, partial.size) - 1;
+      await this.waitForBandwidth(url);
+      const response = await firstValueFrom(this.requestRange(url, start, end, partial.validator).pipe(retry(2)));
+      this.consumeBandwidth(response.body?.size || 0);
+
+      // With If-Range the server sends the whole file instead when it changed
+      if (response.status !== 206) {
+        await this.deletePartialDownload(url);
+        throw new Error('file changed on the server, restarting download');
+      }
+
+      const chunk = response.body || new Blob();
+      if (chunk.size !== end - start + 1) {
+        throw new Error(`chunk ${index + 1}/${chunkCount} has ${chunk.size} bytes, expected ${end - start + 1}`);
+      }
+
+      await this.putChunk(url, index, chunk);
+      this.logService.debug(`Downloaded chunk ${index + 1}/${chunkCount} of ${url}`);
+    }
+
+    // Assemble the file; the chunks aren't needed once it is verified and stored
+    const chunks = await this.getChunks(url);
+    await this.deletePartialDownload(url);
+    return new Blob(chunks, { type: partial.type });
+  }
+
+  /**
+   * Wait until the download queue lets this URL start
+   */
+  private acquireDownloadSlot(url: string): Promise<void> {
+    return new Promise(resolve => {
+      this.downloadQueue.push({
+        url,
+        priority: this.downloadPriorities.get(url) || 'playlist',
+        start: resolve
+      });
+      this.processDownloadQueue();
+    });
+  }
+
+  private releaseDownloadSlot(): void {
+    this.runningDownloads = Math.max(0, this.runningDownloads - 1);
+    this.processDownloadQueue();
+  }
+
+  private raiseDownloadPriority(url: string, priority: DownloadPriority): void {
+    const current = this.downloadPriorities.get(url);
+    if (current && DOWNLOAD_PRIORITY_RANK[priority] >= DOWNLOAD_PRIORITY_RANK[current]) {
+      return;
+    }
+
+    this.downloadPriorities.set(url, priority);
+    const queued = this.downloadQueue.find(entry => entry.url === url);
+    if (queued) {
+      queued.priority = priority;
+      this.processDownloadQueue();
+    }
+  }
+
+  /**
+   * Start the most urgent queued downloads while there are free slots
+   */
+  private processDownloadQueue(): void {
+    const maxConcurrent = Math.max(1, environment.contentDownloads.maxConcurrent);
+    const inQuietHours = this.isWithinQuietHours();
+
+    while (this.runningDownloads < maxConcurrent) {
+      const candidates = this.downloadQueue.filter(entry => entry.priority !== 'prefetch' || inQuietHours);
+      if (!candidates.length) {
+        break;
+      }
+
+      // Most urgent first, oldest first within the same priority
+      const next = candidates.reduce((best, entry) =>
+        DOWNLOAD_PRIORITY_RANK[entry.priority] < DOWNLOAD_PRIORITY_RANK[best.priority] ? entry : best);
+
+      this.downloadQueue.splice(this.downloadQueue.indexOf(next), 1);
+      this.runningDownloads++;
+      next.start();
+    }
+
+    // Pre-caching waits for quiet hours, check again in a minute
+    if (this.queueCheckTimeout) {
+      clearTimeout(this.queueCheckTimeout);
+      this.queueCheckTimeout = null;
+    }
+    if (this.downloadQueue.length > 0) {
+      this.queueCheckTimeout = setTimeout(() => this.processDownloadQueue(), 60000);
+    }
+  }
+
+  /**
+   * Check whether bulk pre-caching may run right now
+   */
+  private isWithinQuietHours(now: Date = new Date()): boolean {
+    const quietHours = environment.contentDownloads.quietHours;
+    if (!quietHours) {
+      return true;
+    }
+
+    const resolver = new ScheduleResolver(() => now, this.timeZoneService.timeZone);
+    return resolver.isEntryActive({
+      playlist_id: 'quiet-hours',
+      start_time: quietHours.start,
+      end_time: quietHours.end,
+      priority: 0
+    }, now);
+  }
+
+  /**
+   * Size of the range requests. Each request arrives at full line speed, so under
+   * a bandwidth cap the chunks are kept small and the pauses between them bring
+   * the average down to the cap.
+   */
+  private getChunkSize(): number {
+    const maxKbps = environment.contentDownloads.maxBandwidthKbps;
+    if (!maxKbps || maxKbps <= 0) {
+      return this.CHUNK_SIZE;
+    }
+
+    const bytes = Math.floor(maxKbps * 1000 / 8 * this.CHUNK_SECONDS);
+    return Math.min(this.CHUNK_SIZE, Math.max(this.MIN_CHUNK_SIZE, bytes));
+  }
+
+  /**
+   * Hold back the next request until the bandwidth cap allows it. Content that is
+   * needed on screen right now is never held back, but still uses up the budget.
+   * A server that ignores Range requests sends a whole file at line speed, the cap
+   * then only delays the downloads after it.
+   */
+  private async waitForBandwidth(url: string): Promise<void> {
+    const delay = this.bandwidthAvailableAt - Date.now();
+    if (delay > 0 && this.downloadPriorities.get(url) !== 'current') {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private consumeBandwidth(bytes: number): void {
+    const maxKbps = environment.contentDownloads.maxBandwidthKbps;
+    if (!maxKbps || maxKbps <= 0) {
+      return;
+    }
+
+    // Time the transfer takes at the capped rate (kilobits per second)
+    const cost = (bytes * 8) / maxKbps;
+    this.bandwidthAvailableAt = Math.max(Date.now(), this.bandwidthAvailableAt) + cost;
+  }
+
+  private requestRange(url: string, start: number, end: number, validator: string | null = null): Observable<HttpResponse<Blob>> {
+    let headers = new HttpHeaders({ Range: `bytes=${start}-${end}` });
+    if (validator) {
+      headers = headers.set('If-Range', validator);
+    }
+    return this.http.get(url, { headers, observe: 'response', responseType: 'blob' });
+  }
+
+  /**
+   * Total size from a Content-Range header such as "bytes 0-99/1234"
+   */
+  private parseContentRangeSize(contentRange: string | null): number | null {
+    const match = contentRange?.match(/\/(\d+)\s*$/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  /**
+   * Continue downloads that were interrupted
+   */
+  private resumePartialDownloads(): void {
+    if (!this.db || this.preloadingPaused || !navigator.onLine) {
+      return;
+    }
+
+    const request = this.db.transaction([this.DOWNLOAD_STORE], 'readonly').objectStore(this.DOWNLOAD_STORE).getAll();
+
+    request.onsuccess = () => {
+      (request.result as PartialDownload[]).forEach(partial => {
+        this.downloadContent(partial.url, partial.expected, 'playlist').subscribe(
+          () => this.logService.info(`Finished interrupted download: ${partial.url}`),
+          () => {} // Already logged, the chunks are kept for the next attempt
+        );
+      });
+    };
+
+    request.onerror = (event) => {
+      this.logService.error(`Error reading partial downloads: ${(event.target as any).error}`);
+    };
+  }
+
+  private getPartialDownload(url: string): Promise<PartialDownload | null> {
+    return this.runRequest<PartialDownload | undefined>(this.DOWNLOAD_STORE, 'readonly',
+      store => store.get(url)).then(partial => partial || null);
+  }
+
+  private putPartialDownload(partial: PartialDownload): Promise<void> {
+    return this.runRequest(this.DOWNLOAD_STORE, 'readwrite', store => store.put(partial)).then(() => {});
+  }
+
+  private putChunk(url: string, index: number, blob: Blob): Promise<void> {
+    return this.runRequest(this.CHUNK_STORE, 'readwrite', store => store.put({ url, index, blob })).then(() => {});
+  }
+
+  private getChunkIndexes(url: string): Promise<number[]> {
+    return this.runRequest<IDBValidKey[]>(this.CHUNK_STORE, 'readonly',
+      store => store.getAllKeys(this.chunkRange(url))).then(keys => keys.map(key => (key as [string, number])[1]));
+  }
+
+  private getChunks(url: string): Promise<Blob[]> {
+    // Compound keys sort by index, so the chunks come back in order
+    return this.runRequest<{ blob: Blob }[]>(this.CHUNK_STORE, 'readonly',
+      store => store.getAll(this.chunkRange(url))).then(chunks => chunks.map(chunk => chunk.blob));
+  }
+
+  private deletePartialDownload(url: string): Promise<void> {
+    return Promise.all([
+      this.runRequest(this.DOWNLOAD_STORE, 'readwrite', store => store.delete(url)),
+      this.runRequest(this.CHUNK_STORE, 'readwrite', store => store.delete(this.chunkRange(url)))
+    ]).then(() => {});
+  }
+
+  private chunkRange(url: string): IDBKeyRange {
+    return IDBKeyRange.bound([url, 0], [url, Infinity]);
+  }
+
+  /**
+   * Run a single request against a store as a promise
+   */
+  private async runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    if (!(await this.ensureInitialized()) || !this.db) {
+      throw new Error('Content cache database not available');
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], mode);
+      const request = createRequest(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Check a blob against the expected content
+   * @param knownSha256 hash recorded when the blob was cached, to avoid hashing it again
+   * @returns the SHA-256 of the blob if it was checked
+   */
+  private async verifyContent(blob: Blob, expected: ExpectedContent, knownSha256?: string): Promise<string | undefined> {
+    if (!blob.size) {
+      throw new Error('file is empty');
+    }
+
+    if (expected.media && blob.type.startsWith('text/html')) {
+      throw new Error('received an HTML page instead of media');
+    }
+
+    if (expected.size && blob.size !== expected.size) {
+      throw new Error(`size is ${blob.size} bytes, expected ${expected.size}`);
+    }
+
+    if (!expected.sha256) {
+      return knownSha256;
+    }
+
+    const sha256 = knownSha256 || await this.computeSha256(blob);
+    if (sha256 && sha256 !== expected.sha256) {
+      throw new Error(`SHA-256 ${sha256} does not match expected ${expected.sha256}`);
+    }
+    return sha256;
+  }
+
+  private async computeSha256(blob: Blob): Promise<string> {
+    // crypto.subtle is only available in secure contexts and takes the whole file at once
+    if (blob.size <= this.HASH_SLICE_SIZE && typeof crypto !== 'undefined' && crypto.subtle) {
+      const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+      return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+    }
+
+    // Hash larger files a slice at a time, so they never have to fit in memory
+    const hash = new Sha256();
+    for (let start = 0; start < blob.size; start += this.HASH_SLICE_SIZE) {
+      hash.update(new Uint8Array(await blob.slice(start, start + this.HASH_SLICE_SIZE).arrayBuffer()));
+    }
+    return hash.digestHex();
+  }
+
+  /**
+   * Work out what a URL must match. Checksum and size belong to the item's main
+   * file; thumbnails are only checked for being an image.
+   */
+  private getExpectedContent(url: string, item?: PlaylistItem): ExpectedContent {
+    if (!item?.content) {
+      return { media: false };
+    }
+
+    if (item.content.url !== url) {
+      return { itemId: item.id, media: url === item.content.thumbnail };
+    }
+
+    return {
+      itemId: item.id,
+      sha256: item.content.sha256?.toLowerCase(),
+      size: item.content.size,
+      media: item.type === 'image' || item.type === 'video'
+    };
+  }
+
+  private describeContent(url: string, expected: ExpectedContent): string {
+    return expected.itemId ? `${url} (item ${expected.itemId})` : url;
   }
 
   /**
    * Store a content blob in IndexedDB
    */
-  private storeContent(url: string, localUrl: string, blob: Blob): void {
+  private storeContent(url: string, localUrl: string, blob: Blob, sha256?: string): void {
     if (!this.db) return;
 
     try {
@@ -331,7 +915,8 @@ export class ContentSyncService {
         size: blob.size,
         timestamp: Date.now(),
         type: blob.type,
-        blob: blob // Store the actual blob for future use
+        blob: blob, // Store the actual blob for future use
+        sha256
       };
       
       store.put(contentEntry);
@@ -342,13 +927,19 @@ export class ContentSyncService {
         this.cacheSizeBytes += blob.size;
         
         // If cache is too large, trim it
-        if (this.cacheSizeBytes > this.MAX_CACHE_SIZE) {
+        if (this.cacheSizeBytes > this.maxCacheSize) {
           this.trimCache();
         }
       };
       
       transaction.onerror = (event) => {
-        this.logService.error(`Error storing content in cache: ${(event.target as any).error}`);
+        const error = (event.target as any).error;
+        this.logService.error(`Error storing content in cache: ${error}`);
+
+        // The quota shrank or other data grew, resize the cache and make room
+        if (error?.name === 'QuotaExceededError') {
+          this.getStorageStatus().then(() => this.trimCache());
+        }
       };
     } catch (error) {
       this.logService.error(`Exception storing content in cache: ${error}`);
@@ -356,69 +947,112 @@ export class ContentSyncService {
   }
 
   /**
-   * Delete the oldest content from cache to make room for new content
+   * Pin the content of playlists so trimming the cache never removes it.
+   * Each source (playback, schedule) replaces its own set of playlists. Pass
+   * the playlists that are in memory too: they may not be stored yet.
    */
-  private trimCache(): void {
-    if (!this.db) return;
+  setPinnedPlaylists(source: string, playlistIds: string[], playlists: Playlist[] = []): void {
+    this.pinnedPlaylists.set(source, new Set(playlistIds.filter(id => !!id)));
+    this.pinnedUrls.set(source, new Set(playlists.flatMap(playlist => this.getPlaylistContentUrls(playlist))));
+  }
+
+  /**
+   * Make room in the cache. Content that no cached playlist uses goes first, then
+   * content of cached playlists that aren't playing or scheduled, oldest first.
+   * Content of the current and upcoming playlists is never removed.
+   */
+  private async trimCache(): Promise<void> {
+    if (!this.db || this.isTrimming) return;
+    this.isTrimming = true;
 
     try {
       this.logService.info('Trimming content cache...');
-      
-      const transaction = this.db.transaction([this.CONTENT_STORE], 'readwrite');
-      const store = transaction.objectStore(this.CONTENT_STORE);
-      const index = store.index('timestamp');
-      
-      // Get all content sorted by timestamp
-      const request = index.openCursor();
+
+      const playlists = await this.runRequest<Playlist[]>(this.PLAYLIST_STORE, 'readonly', store => store.getAll());
+      const entries = await this.runRequest<CachedContent[]>(this.CONTENT_STORE, 'readonly',
+        store => store.index('timestamp').getAll());
+
+      const pinnedIds = new Set<string>();
+      this.pinnedPlaylists.forEach(ids => ids.forEach(id => pinnedIds.add(id)));
+
+      const pinnedUrls = new Set<string>();
+      this.pinnedUrls.forEach(urls => urls.forEach(url => pinnedUrls.add(url)));
+
+      const referencedUrls = new Set<string>();
+      playlists.forEach(playlist => {
+        const urls = pinnedIds.has(playlist.id) ? pinnedUrls : referencedUrls;
+        this.getPlaylistContentUrls(playlist).forEach(url => urls.add(url));
+      });
+
+      // Entries come back oldest first, keep that order within each group
+      const evictable = [
+        ...entries.filter(entry => !pinnedUrls.has(entry.url) && !referencedUrls.has(entry.url)),
+        ...entries.filter(entry => !pinnedUrls.has(entry.url) && referencedUrls.has(entry.url))
+      ];
+
+      const targetSize = this.maxCacheSize * 0.7; // Trim to 70% of max
+      const toDelete: CachedContent[] = [];
       let deletedSize = 0;
-      const targetSize = this.MAX_CACHE_SIZE * 0.7; // Trim to 70% of max
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result as IDBCursorWithValue;
-        
-        if (cursor && this.cacheSizeBytes - deletedSize > targetSize) {
-          const content = cursor.value as CachedContent;
-          
-          try {
-            // Delete from store
-            store.delete(content.url);
-            deletedSize += content.size;
-            
-            // Release the blob URL and remove from tracking map
-            if (content.localUrl && content.localUrl.startsWith('blob:')) {
-              try {
-                URL.revokeObjectURL(content.localUrl);
-              } catch (e) {
-                // Ignore errors when revoking URLs
-              }
+
+      for (const entry of evictable) {
+        if (this.cacheSizeBytes - deletedSize <= targetSize) {
+          break;
+        }
+        toDelete.push(entry);
+        deletedSize += entry.size;
+      }
+
+      if (toDelete.length) {
+        await this.runRequest(this.CONTENT_STORE, 'readwrite', store => {
+          toDelete.forEach(entry => store.delete(entry.url));
+          return store.count();
+        });
+
+        toDelete.forEach(entry => {
+          // Release the blob URL and remove from tracking map
+          if (entry.localUrl && entry.localUrl.startsWith('blob:')) {
+            try {
+              URL.revokeObjectURL(entry.localUrl);
+            } catch (e) {
+              // Ignore errors when revoking URLs
             }
-            
-            this.blobCache.delete(content.url);
-            this.logService.debug(`Removed from cache: ${content.url}`);
-          } catch (e) {
-            // Log but continue with the next item
-            this.logService.error(`Error removing item from cache: ${e}`);
           }
-          
-          cursor.continue();
-        } else {
-          this.cacheSizeBytes -= deletedSize;
-          this.logService.info(`Trimmed ${(deletedSize / (1024 * 1024)).toFixed(2)} MB from cache`);
-        }
-      };
+          this.blobCache.delete(entry.url);
+          this.logService.debug(`Removed from cache: ${entry.url}${referencedUrls.has(entry.url) ? ' (used by a cached playlist)' : ''}`);
+        });
+      }
 
-      request.onerror = (event) => {
-        this.logService.error(`Error trimming cache: ${(event.target as any).error}`);
-      };
+      this.cacheSizeBytes -= deletedSize;
+      this.logService.info(`Trimmed ${(deletedSize / (1024 * 1024)).toFixed(2)} MB from cache`);
+
+      if (this.cacheSizeBytes > targetSize) {
+        this.logService.warn(`Cache still holds ${(this.cacheSizeBytes / (1024 * 1024)).toFixed(2)} MB of content for current and upcoming playlists`);
+      }
     } catch (error) {
       this.logService.error(`Exception trimming cache: ${error}`);
+    } finally {
+      this.isTrimming = false;
     }
   }
 
+  private getPlaylistContentUrls(playlist: Playlist): string[] {
+    return getAllPlaylistItems(playlist).reduce((urls, item) => {
+      if (item.content?.url) urls.push(item.content.url);
+      if (item.content?.thumbnail) urls.push(item.content.thumbnail);
+      return urls;
+    }, [] as string[]);
+  }
+
   /**
    * Cache a playlist for offline use
+   * @param priority download priority of the playlist content
+   * @param itemsToPreload items whose files are downloaded, the main zone by default
    */
-  cachePlaylist(playlist: Playlist): void {
+  cachePlaylist(
+    playlist: Playlist,
+    priority: DownloadPriority = 'playlist',
+    itemsToPreload: PlaylistItem[] = playlist?.items || []
+  ): void {
     if (!this.db || !playlist) return;
 
     this.ensureInitialized().then(initialized => {
@@ -439,14 +1073,14 @@ export class ContentSyncService {
         transaction.oncomplete = () => {
           this.logService.info(`Playlist cached: ${playlist.id} - ${playlist.name}`);
           
-          // Preload all content for this playlist
-          if (playlist.items?.length) {
-            playlist.items.forEach(item => {
+          // Preload the content for this playlist
+          if (itemsToPreload.length) {
+            itemsToPreload.forEach(item => {
               if (item.content?.url) {
-                this.preloadContent(item.content.url);
+                this.preloadContent(item.content.url, item, priority);
               }
               if (item.content?.thumbnail) {
-                this.preloadContent(item.content.thumbnail);
+                this.preloadContent(item.content.thumbnail, item, priority);
               }
             });
           }
@@ -461,6 +1095,89 @@ export class ContentSyncService {
     });
   }
 
+  /**
+   * Bring a cached playlist up to date. The playlist is only fetched when it or one
+   * of its items changed since the cached lastModified, or items were removed, and
+   * only files of new or changed items are downloaded. Files of an unchanged
+   * playlist that are missing from the cache (evicted, failed) are queued again.
+   * @param force fetch even if the playlist seems unchanged
+   */
+  syncPlaylist(playlistId: string, priority: DownloadPriority = 'playlist', force = false): Observable<PlaylistSyncResult> {
+    return this.getCachedPlaylist(playlistId).pipe(
+      switchMap(cached => {
+        if (force || !cached?.lastModified) {
+          return this.fetchAndCachePlaylist(playlistId, cached, priority);
+        }
+
+        return this.supabaseApi.getPlaylistVersion(playlistId).pipe(
+          switchMap(version => {
+            // Unchanged, or the server couldn't be asked: keep the cached version
+            const unchanged = !version || (
+              Date.parse(version.lastModified) <= Date.parse(cached.lastModified) &&
+              version.itemCount === getAllPlaylistItems(cached).length
+            );
+            if (unchanged) {
+              this.logService.debug(`Playlist ${playlistId} unchanged since ${cached.lastModified}`);
+              this.preloadMissingContent(cached, priority);
+              return of({ playlist: cached, changed: false, diff: null });
+            }
+            return this.fetchAndCachePlaylist(playlistId, cached, priority);
+          })
+        );
+      })
+    );
+  }
+
+  private fetchAndCachePlaylist(
+    playlistId: string,
+    cached: Playlist | null,
+    priority: DownloadPriority
+  ): Observable<PlaylistSyncResult> {
+    return this.supabaseApi.getPlaylistById(playlistId).pipe(
+      map(playlist => {
+        if (!playlist) {
+          return { playlist: cached, changed: false, diff: null };
+        }
+
+        const diff = diffPlaylists(cached, playlist);
+        const previousItems = new Map(getAllPlaylistItems(cached).map(item => [item.id, item]));
+        const toDownload = [...diff.added, ...diff.changed]
+          .filter(item => hasContentChanged(previousItems.get(item.id), item));
+
+        this.logService.info(`Playlist synced: ${playlistId} - ${diff.added.length} added, ${diff.removed.length} removed, ` +
+          `${diff.changed.length} changed, ${toDownload.length} to download`);
+
+        // Files of removed items are left to cache eviction, other playlists may use them
+        this.cachePlaylist(playlist, priority, toDownload);
+        return { playlist, changed: true, diff };
+      })
+    );
+  }
+
+  /**
+   * Queue the files of a playlist that aren't in the cache. Ticker items are
+   * skipped, their URL holds the text or a feed.
+   */
+  private async preloadMissingContent(playlist: Playlist, priority: DownloadPriority): Promise<void> {
+    if (!this.db || this.preloadingPaused) return;
+
+    try {
+      const cachedUrls = new Set(await this.runRequest<IDBValidKey[]>(this.CONTENT_STORE, 'readonly', store => store.getAllKeys()));
+      const missing = getAllPlaylistItems(playlist)
+        .filter(item => item.type !== 'ticker')
+        .flatMap(item => [item.content?.url, item.content?.thumbnail]
+          .filter((url): url is string => !!url && !cachedUrls.has(url))
+          .map(url => ({ url, item })));
+
+      if (missing.length) {
+        this.logService.info(`Playlist ${playlist.id}: queueing ${missing.length} files missing from the cache`);
+        missing.forEach(({ url, item }) => this.preloadContent(url, item, priority));
+      }
+    } catch (error) {
+      this.logService.error(`Error checking cached content of playlist ${playlist.id}: ${error}`);
+    }
+  }
+
   /**
    * Get a cached playlist by ID
    */
@@ -510,6 +1227,75 @@ export class ContentSyncService {
     });
   }
 
+  /**
+   * Store the precomputed schedule timeline for offline use
+   */
+  cacheScheduleTimeline(timeline: ScheduleTimeline): void {
+    if (!timeline) return;
+
+    this.ensureInitialized().then(initialized => {
+      if (!initialized || !this.db) return;
+
+      try {
+        const transaction = this.db.transaction([this.SCHEDULE_STORE], 'readwrite');
+        const store = transaction.objectStore(this.SCHEDULE_STORE);
+        store.put(timeline);
+
+        transaction.oncomplete = () => {
+          this.logService.info(`Schedule timeline cached: ${timeline.segments.length} segments until ${timeline.validUntil}`);
+        };
+
+        transaction.onerror = (event) => {
+          this.logService.error(`Error caching schedule timeline: ${(event.target as any).error}`);
+        };
+      } catch (error) {
+        this.logService.error(`Exception caching schedule timeline: ${error}`);
+      }
+    }).catch(error => {
+      this.logService.error(`Database initialization failed when caching schedule timeline: ${error}`);
+    });
+  }
+
+  /**
+   * Get the cached schedule timeline
+   */
+  getCachedScheduleTimeline(id: string): Observable<ScheduleTimeline | null> {
+    return new Observable<ScheduleTimeline | null>(observer => {
+      this.ensureInitialized().then(initialized => {
+        if (!initialized || !this.db) {
+          observer.next(null);
+          observer.complete();
+          return;
+        }
+
+        try {
+          const transaction = this.db.transaction([this.SCHEDULE_STORE], 'readonly');
+          const store = transaction.objectStore(this.SCHEDULE_STORE);
+          const request = store.get(id);
+
+          request.onsuccess = () => {
+            observer.next((request.result as ScheduleTimeline) || null);
+            observer.complete();
+          };
+
+          request.onerror = (event) => {
+            this.logService.error(`Error getting cached schedule timeline: ${(event.target as any).error}`);
+            observer.next(null);
+            observer.complete();
+          };
+        } catch (error) {
+          this.logService.error(`Exception getting cached schedule timeline: ${error}`);
+          observer.next(null);
+          observer.complete();
+        }
+      }).catch(error => {
+        this.logService.error(`Database initialization failed when getting schedule timeline: ${error}`);
+        observer.next(null);
+        observer.complete();
+      });
+    });
+  }
+
   /**
    * Get the fallback playlist for offline use
    */
@@ -597,10 +1383,13 @@ export class ContentSyncService {
               }
             });
             
-            // Now clear both stores
-            transaction = this.db!.transaction([this.CONTENT_STORE, this.PLAYLIST_STORE], 'readwrite');
+            // Now clear both stores, along with any partial downloads
+            transaction = this.db!.transaction(
+              [this.CONTENT_STORE, this.PLAYLIST_STORE, this.DOWNLOAD_STORE, this.CHUNK_STORE], 'readwrite');
             const contentStore2 = transaction.objectStore(this.CONTENT_STORE);
             const playlistStore = transaction.objectStore(this.PLAYLIST_STORE);
+            transaction.objectStore(this.DOWNLOAD_STORE).clear();
+            transaction.objectStore(this.CHUNK_STORE).clear();
             
             const clearContentRequest = contentStore2.clear();
             clearContentRequest.onsuccess = () => {
@@ -827,6 +1616,21 @@ export class ContentSyncService {
     playlistCount: number;
     oldestItem: Date | null;
     newestItem: Date | null;
+    storage: StorageStatus;
+  }> {
+    return from(this.getStorageStatus()).pipe(
+      switchMap(storage => this.getContentStats().pipe(
+        map(stats => ({ ...stats, storage }))
+      ))
+    );
+  }
+
+  private getContentStats(): Observable<{
+    totalSize: number;
+    itemCount: number;
+    playlistCount: number;
+    oldestItem: Date | null;
+    newestItem: Date | null;
   }> {
     if (!this.db) {
       return of({
@@ -5,13 +5,14 @@ import { isPlatformBrowser } from '@angular/common';
 import { Observable, of } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 import { LogService } from './log.service';
+import { ContentSyncService } from './content-sync.service';
 import { environment } from '../../../environments/environment';
 import { supabase } from './supabase.config';
 
 
   // heartbeat.service.ts
   export interface HeartbeatData {
-    status: 'playing' | 'paused' | 'error' | 'offline';
+    status: 'playing' | 'paused' | 'error' | 'offline' | 'sleeping';
     currentItem?: string | null; // ID of current playing item
     currentPlaylist?: string | null; // ID of current playlist
     scheduleStatus?: string | null; // Status of current schedule
@@ -45,6 +46,7 @@ export class HeartbeatService {
   constructor(
     private http: HttpClient,
     private logService: LogService,
+    private contentSyncService: ContentSyncService,
     @Inject(PLATFORM_ID) private platformId: any
   ) {
     this.isBrowser = isPlatformBrowser(this.platformId);
@@ -82,30 +84,39 @@ export class HeartbeatService {
 
     // Update screen status in Supabase with current playlist info
     return new Observable<boolean>(observer => {
-      supabase
-        .from('screens')
-        .update({
-          status: navigator.onLine ? (data.status === 'error' ? 'error' : 'online') : 'offline',
-          last_ping: new Date().toISOString(),
-          analytics: {
-            ...metrics,
-            last_error: data.error || null,
-            current_item: data.currentItem || null,
-            current_playlist: data.currentPlaylist || null,
-            schedule_status: data.scheduleStatus || null
-          }
-        })
-        .eq('id', this.deviceId)
-        .then(({ error }) => {
-          if (error) {
-            this.logService.error(`Heartbeat failed: ${error.message}`);
-            observer.next(false);
-          } else {
-            this.logService.debug('Heartbeat sent successfully');
-            observer.next(true);
-          }
-          observer.complete();
-        });
+      this.contentSyncService.getStorageStatus().then(storage => {
+        supabase
+          .from('screens')
+          .update({
+            status: navigator.onLine ? this.getScreenStatus(data.status) : 'offline',
+            last_ping: new Date().toISOString(),
+            analytics: {
+              ...metrics,
+              storage: {
+                quota: storage.quota,
+                usage: storage.usage,
+                persisted: storage.persisted,
+                cache_size: storage.cacheSize,
+                cache_limit: storage.cacheLimit
+              },
+              last_error: data.error || null,
+              current_item: data.currentItem || null,
+              current_playlist: data.currentPlaylist || null,
+              schedule_status: data.scheduleStatus || null
+            }
+          })
+          .eq('id', this.deviceId)
+          .then(({ error }) => {
+            if (error) {
+              this.logService.error(`Heartbeat failed: ${error.message}`);
+              observer.next(false);
+            } else {
+              this.logService.debug('Heartbeat sent successfully');
+              observer.next(true);
+            }
+            observer.complete();
+          });
+      });
     }).pipe(
       catchError(error => {
         this.logService.error(`Error sending heartbeat: ${error.message}`);
@@ -114,6 +125,17 @@ export class HeartbeatService {
     );
   }
 
+  /**
+   * Map the player status onto the screen status shown in the dashboard.
+   * A sleeping display is reported as such rather than as offline or broken.
+   */
+  private getScreenStatus(status: HeartbeatData['status']): string {
+    if (status === 'error') {
+      return 'error';
+    }
+    return status === 'sleeping' ? 'sleeping' : 'online';
+  }
+
   /**
    * Handle changes in network connectivity
    */
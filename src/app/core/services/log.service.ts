@@ -4,6 +4,7 @@ import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { isPlatformBrowser } from '@angular/common';
 import { environment } from '../../../environments/environment';
 import { supabase } from './supabase.config';
+import { TimeZoneService } from './time-zone.service';
 
 export enum LogLevel {
   Debug = 0,
@@ -37,6 +38,7 @@ export class LogService {
 
   constructor(
     private http: HttpClient,
+    private timeZoneService: TimeZoneService,
     @Inject(PLATFORM_ID) private platformId: any
   ) {
     this.isBrowser = isPlatformBrowser(this.platformId);
@@ -112,7 +114,8 @@ export class LogService {
     }
     
     const entry: LogEntry = {
-      timestamp: new Date().toISOString(),
+      // ISO timestamp with the offset of the screen time zone
+      timestamp: this.timeZoneService.toIsoString(),
       level,
       message,
       deviceId: this.deviceId || undefined,
@@ -153,7 +156,7 @@ export class LogService {
    * Format and output a log entry to the console
    */
   private logToConsole(entry: LogEntry): void {
-    const timestamp = new Date(entry.timestamp).toLocaleTimeString();
+    const timestamp = this.timeZoneService.formatTime(new Date(entry.timestamp));
     const prefix = `[${timestamp}]`;
     
     switch (entry.level) {
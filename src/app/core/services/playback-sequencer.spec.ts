@@ -0,0 +1,109 @@
+import { PlaybackSequencer } from './playback-sequencer';
+import { PlaybackOrder, PlaylistItem } from '../models/playlist.model';
+
+const item = (id: string, settings: Partial<PlaylistItem['settings']> = {}, duration = 10): PlaylistItem => ({
+  id,
+  type: 'image',
+  name: id,
+  duration,
+  content: { url: `${id}.jpg` },
+  settings: { scaling: 'fit', ...settings }
+});
+
+// Play `count` items and return their ids
+const play = (sequencer: PlaybackSequencer, items: PlaylistItem[], count: number, now = new Date('2024-01-01T10:00:00')) => {
+  const ids: string[] = [];
+  let current = -1;
+  for (let i = 0; i < count; i++) {
+    current = sequencer.advance(current, () => true, now)!;
+    ids.push(items[current].id);
+  }
+  return ids;
+};
+
+const countOf = (ids: string[], id: string) => ids.filter(value => value === id).length;
+
+describe('PlaybackSequencer', () => {
+  const items = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(id => item(id));
+
+  describe('sequential', () => {
+    it('should play the list in order and wrap around', () => {
+      const sequencer = new PlaybackSequencer(items.slice(0, 3));
+      expect(play(sequencer, items, 5)).toEqual(['a', 'b', 'c', 'a', 'b']);
+    });
+
+    it('should pass over items that may not play', () => {
+      const sequencer = new PlaybackSequencer(items.slice(0, 3));
+      expect(sequencer.advance(0, candidate => candidate.id !== 'b')).toBe(2);
+      expect(sequencer.advance(0, () => false)).toBeNull();
+    });
+  });
+
+  describe('shuffle', () => {
+    const order: PlaybackOrder = { mode: 'shuffle', seed: 'lobby' };
+
+    it('should play every item once per round', () => {
+      const ids = play(new PlaybackSequencer(items, order), items, 16);
+      expect([...ids.slice(0, 8)].sort()).toEqual(items.map(i => i.id));
+      expect([...ids.slice(8)].sort()).toEqual(items.map(i => i.id));
+    });
+
+    it('should produce the same sequence for the same seed', () => {
+      const first = play(new PlaybackSequencer(items, order), items, 24);
+      const second = play(new PlaybackSequencer(items, order), items, 24);
+      const other = play(new PlaybackSequencer(items, { mode: 'shuffle', seed: 'window' }), items, 24);
+
+      expect(second).toEqual(first);
+      expect(other).not.toEqual(first);
+    });
+
+    it('should never repeat an item across rounds', () => {
+      const ids = play(new PlaybackSequencer(items.slice(0, 2), order), items, 40);
+      ids.slice(1).forEach((id, i) => expect(id).not.toBe(ids[i]));
+    });
+  });
+
+  describe('weighted', () => {
+    it('should play items in proportion to their weight, spread evenly', () => {
+      const weighted = [item('a', { weight: 3 }), item('b')];
+      const ids = play(new PlaybackSequencer(weighted, { mode: 'weighted' }), weighted, 8);
+
+      expect(countOf(ids, 'a')).toBe(6);
+      expect(countOf(ids, 'b')).toBe(2);
+      expect(ids.join('')).not.toContain('bb');
+    });
+  });
+
+  describe('share-of-voice', () => {
+    it('should meet the airtime shares and split the rest', () => {
+      const voiced = [item('a', { shareOfVoice: 50 }), item('b', {}, 20), item('c', {}, 20)];
+      const sequencer = new PlaybackSequencer(voiced, { mode: 'share-of-voice' });
+      const ids = play(sequencer, voiced, 20);
+
+      // a plays 10s, b and c 20s each: half the airtime needs twice the plays
+      const airtime = (id: string) => countOf(ids, id) * voiced.find(v => v.id === id)!.duration;
+      const total = airtime('a') + airtime('b') + airtime('c');
+      expect(airtime('a') / total).toBeCloseTo(0.5, 1);
+      expect(Math.abs(airtime('b') - airtime('c'))).toBeLessThanOrEqual(20);
+    });
+
+    it('should start the tally over every hour', () => {
+      const voiced = [item('a', { shareOfVoice: 50 }), item('b', { shareOfVoice: 50 })];
+      const sequencer = new PlaybackSequencer(voiced, { mode: 'share-of-voice' });
+
+      expect(sequencer.advance(-1, () => true, new Date('2024-01-01T10:00:00'))).toBe(0);
+      expect(sequencer.advance(0, () => true, new Date('2024-01-01T10:59:00'))).toBe(1);
+      expect(sequencer.advance(1, () => true, new Date('2024-01-01T10:59:30'))).toBe(0);
+      // b would be behind in the old hour, the new hour starts from scratch
+      expect(sequencer.advance(0, () => true, new Date('2024-01-01T11:00:00'))).toBe(0);
+    });
+  });
+
+  it('should play what was peeked', () => {
+    const sequencer = new PlaybackSequencer(items, { mode: 'shuffle', seed: 1 });
+    const peeked = sequencer.peek(-1);
+
+    expect(sequencer.peek(-1)).toBe(peeked);
+    expect(sequencer.advance(-1)).toBe(peeked);
+  });
+});
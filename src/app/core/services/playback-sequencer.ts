@@ -0,0 +1,247 @@
+// playback-sequencer.ts
+import { PlaybackOrder, PlaylistItem } from '../models/playlist.model';
+
+// Whether an item may play right now (e.g. within its own schedule)
+export type ItemFilter = (item: PlaylistItem) => boolean;
+
+// Choosing an item doesn't change the sequencer until the choice is committed
+interface SequencerState {
+  round: number; // shuffle round, part of the seed of its order
+  order: number[]; // item indexes in the order of the current shuffle round
+  position: number; // position in order of the last item played
+  weights: number[]; // current weights of the smooth weighted round-robin
+  hour: string | null; // hour the airtime below belongs to
+  airtime: number[]; // seconds each item played in that hour
+}
+
+interface Choice {
+  current: number;
+  index: number | null;
+  state: SequencerState;
+}
+
+/**
+ * Seeded 32-bit PRNG (mulberry32), returns numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash a seed string to 32 bits (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Decides which item of the main zone plays next, following the playlist's
+ * playback order. For the same items, order, seed and clock it always produces
+ * the same sequence, so proof-of-play numbers can be reconciled against it.
+ *
+ * - sequential: the next item in the list.
+ * - shuffle: every item once per round in a seeded random order, never the
+ *   same item twice in a row across rounds.
+ * - weighted: smooth weighted round-robin on settings.weight, so an item with
+ *   weight 3 plays three times as often as one with weight 1, spread evenly.
+ * - share-of-voice: the item furthest below its settings.shareOfVoice share of
+ *   this hour's airtime (scheduled durations). Items without a share split what
+ *   is left. The tally starts over every hour.
+ *
+ * Items rejected by the filter are passed over; null means none may play.
+ */
+export class PlaybackSequencer {
+  private state: SequencerState;
+  private pending: Choice | null = null;
+  private readonly seed: string;
+
+  constructor(
+    private items: PlaylistItem[],
+    private playbackOrder: PlaybackOrder = { mode: 'sequential' },
+    defaultSeed = ''
+  ) {
+    this.seed = String(playbackOrder.seed ?? defaultSeed);
+    this.state = {
+      round: 0,
+      order: [],
+      position: -1,
+      weights: items.map(() => 0),
+      hour: null,
+      airtime: items.map(() => 0)
+    };
+  }
+
+  get mode(): PlaybackOrder['mode'] {
+    return this.playbackOrder.mode;
+  }
+
+  /**
+   * The item that will follow `current` (-1 before the first item), without moving on
+   */
+  peek(current: number, isPlayable: ItemFilter = () => true, now: Date = new Date()): number | null {
+    // Keep an earlier choice as long as it can still play, so what was buffered is what plays
+    const pending = this.pending;
+    if (pending && pending.current === current && pending.index !== null && isPlayable(this.items[pending.index])) {
+      return pending.index;
+    }
+
+    this.pending = { current, ...this.choose(current, isPlayable, now) };
+    return this.pending.index;
+  }
+
+  /**
+   * Move on to the item after `current` (-1 before the first item)
+   */
+  advance(current: number, isPlayable: ItemFilter = () => true, now: Date = new Date()): number | null {
+    const index = this.peek(current, isPlayable, now);
+    if (index !== null) {
+      this.state = this.pending!.state;
+    }
+    this.pending = null;
+    return index;
+  }
+
+  private choose(current: number, isPlayable: ItemFilter, now: Date): { index: number | null; state: SequencerState } {
+    const count = this.items.length;
+    if (count === 0) {
+      return { index: null, state: this.state };
+    }
+
+    switch (this.playbackOrder.mode) {
+      case 'shuffle':
+        return this.chooseShuffled(current, isPlayable);
+      case 'weighted':
+        return this.chooseWeighted(isPlayable);
+      case 'share-of-voice':
+        return this.chooseByShareOfVoice(isPlayable, now);
+      default:
+        for (let offset = 1; offset <= count; offset++) {
+          const index = (current + offset + count) % count;
+          if (isPlayable(this.items[index])) {
+            return { index, state: this.state };
+          }
+        }
+        return { index: null, state: this.state };
+    }
+  }
+
+  private chooseShuffled(current: number, isPlayable: ItemFilter): { index: number | null; state: SequencerState } {
+    let { round, order, position } = this.state;
+
+    // Walk the current round, then at most one new round
+    for (let step = 0; step < this.items.length * 2; step++) {
+      position++;
+      if (position >= order.length) {
+        round = order.length ? round + 1 : round;
+        order = this.shuffle(round, current);
+        position = 0;
+      }
+
+      const index = order[position];
+      if (isPlayable(this.items[index])) {
+        return { index, state: { ...this.state, round, order, position } };
+      }
+    }
+
+    return { index: null, state: this.state };
+  }
+
+  private shuffle(round: number, previous: number): number[] {
+    const random = createRandom(hashSeed(`${this.seed}:${round}`));
+    const order = this.items.map((_, index) => index);
+
+    // Fisher-Yates
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    // Don't start a round with the item that ended the last one
+    if (order.length > 1 && order[0] === previous) {
+      [order[0], order[1]] = [order[1], order[0]];
+    }
+    return order;
+  }
+
+  private chooseWeighted(isPlayable: ItemFilter): { index: number | null; state: SequencerState } {
+    const weights = [...this.state.weights];
+    let total = 0;
+    let best: number | null = null;
+
+    this.items.forEach((item, index) => {
+      if (!isPlayable(item)) {
+        return;
+      }
+      const weight = Math.max(0, item.settings?.weight ?? 1);
+      weights[index] += weight;
+      total += weight;
+      if (weight > 0 && (best === null || weights[index] > weights[best])) {
+        best = index;
+      }
+    });
+
+    if (best === null) {
+      return { index: null, state: this.state };
+    }
+
+    weights[best] -= total;
+    return { index: best, state: { ...this.state, weights } };
+  }
+
+  private chooseByShareOfVoice(isPlayable: ItemFilter, now: Date): { index: number | null; state: SequencerState } {
+    const hour = `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}T${now.getHours()}`;
+    const airtime = hour === this.state.hour ? [...this.state.airtime] : this.items.map(() => 0);
+    const targets = this.getShareTargets();
+    const played = airtime.reduce((sum, seconds) => sum + seconds, 0);
+
+    let best: number | null = null;
+    let bestDeficit = -Infinity;
+
+    this.items.forEach((item, index) => {
+      if (!isPlayable(item) || targets[index] <= 0) {
+        return;
+      }
+      const deficit = targets[index] - (played > 0 ? airtime[index] / played : 0);
+      if (deficit > bestDeficit) {
+        best = index;
+        bestDeficit = deficit;
+      }
+    });
+
+    if (best === null) {
+      return { index: null, state: this.state };
+    }
+
+    airtime[best] += Math.max(1, this.items[best].duration || 0);
+    return { index: best, state: { ...this.state, hour, airtime } };
+  }
+
+  /**
+   * Target share (0-1) of every item. Items without a share split the rest evenly.
+   */
+  private getShareTargets(): number[] {
+    const shares = this.items.map(item => item.settings?.shareOfVoice);
+    const assigned = shares.reduce<number>((sum, share) => sum + Math.max(0, share ?? 0), 0);
+    const unassigned = shares.filter(share => share === undefined || share === null).length;
+    const rest = Math.max(0, 100 - assigned);
+    const scale = assigned > 100 ? 100 / assigned : 1;
+
+    return shares.map(share =>
+      share === undefined || share === null
+        ? (unassigned ? rest / unassigned : 0) / 100
+        : (Math.max(0, share) * scale) / 100
+    );
+  }
+}
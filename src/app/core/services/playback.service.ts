@@ -6,18 +6,16 @@ import { ContentSyncService } from './content-sync.service';
 import { LogService } from './log.service';
 import { SupabaseApiService } from './supabase-api.service';
 import { PlayerState } from '../models/player-state.model';
-import { Playlist, PlaylistItem } from '../models/playlist.model';
+import { ItemTransition, Playlist, PlaylistItem, PlaylistLayout, PlaylistZones } from '../models/playlist.model';
+import { PlayEndReason } from '../models/proof-of-play.model';
 import { environment } from '../../../environments/environment';
 import { supabase } from './supabase.config';
 import { ScheduleService } from './schedule.service';
-
-interface PlaylistScheduleItem {
-  playlist_id: string;
-  start_time: string;
-  end_time: string;
-  priority: number;
-  days_of_week?: string[]; // Make this optional
-}
+import { PowerScheduleService } from './power-schedule.service';
+import { ProofOfPlayService } from './proof-of-play.service';
+import { TimeZoneService } from './time-zone.service';
+import { ScheduleResolver } from './schedule-resolver';
+import { PlaybackSequencer } from './playback-sequencer';
 
 @Injectable({
   providedIn: 'root'
@@ -27,8 +25,13 @@ export class PlaybackService {
   currentItem$ = new BehaviorSubject<PlaylistItem | null>(null);
   nextItem$ = new BehaviorSubject<PlaylistItem | null>(null);
   isTransitioning$ = new BehaviorSubject<boolean>(false);
+  currentTransition$ = new BehaviorSubject<ItemTransition>({ type: 'none', duration: 0 });
   playbackError$ = new BehaviorSubject<string | null>(null);
   
+  // Layout of the current playlist and the item sequences of its secondary zones
+  currentLayout$ = new BehaviorSubject<PlaylistLayout>({ type: 'fullscreen' });
+  zoneItems$ = new BehaviorSubject<PlaylistZones>({});
+  
   // Player state information
   private playerStateSubject = new BehaviorSubject<PlayerState>({
     isPlaying: false,
@@ -42,7 +45,11 @@ export class PlaybackService {
   playerState$ = this.playerStateSubject.asObservable();
   
   // Internal state
+  private readonly LAST_PLAYLIST_KEY = 'lastPlaylistId';
   private currentPlaylist: Playlist | null = null;
+  private pendingPlaylist: Playlist | null = null; // Update of the current playlist, applied at the next item
+  private sequencer: PlaybackSequencer | null = null; // Playback order of the current playlist
+  private pendingSequencer: PlaybackSequencer | null = null;
   private currentIndex = 0;
   private isPlaying = false;
   private autoAdvance = true;
@@ -50,12 +57,23 @@ export class PlaybackService {
   private maxRetries = 3;
   private currentTransitionTimeout: any = null;
   private realtimeChannel: any = null;
+  private tagAssignmentsChannel: any = null;
+  private isSleeping = false;
+  private isInterrupted = false; // An alert has taken over the screen
+  private itemStartedAt = 0; // When the current item would have started without an interruption
+  private resumeOffset: number | null = null; // Seconds into the item an alert interrupted it
+  private interruptedItem: PlaylistItem | null = null; // Item on screen when an alert took over
+  currentItemOffset = 0; // Seconds into the current item it starts playing at
+  private playlistStartedAt = Date.now(); // Start of the beat grid for 'cut-on-beat'
   
   constructor(
     private supabaseApi: SupabaseApiService,
     private contentSyncService: ContentSyncService,
     private logService: LogService,
-    private scheduleService: ScheduleService 
+    private scheduleService: ScheduleService,
+    private powerScheduleService: PowerScheduleService,
+    private proofOfPlayService: ProofOfPlayService,
+    private timeZoneService: TimeZoneService
   ) {
     // Set up subscription to device screen ID from local storage
     this.setup();
@@ -72,6 +90,15 @@ export class PlaybackService {
         this.loadPlaylist(playlistId);
       }, 100);
     });
+    
+    // Sleep and wake with the power schedule
+    this.powerScheduleService.isSleeping$.subscribe(sleeping => {
+      if (sleeping) {
+        this.enterSleep();
+      } else if (this.isSleeping) {
+        this.wake();
+      }
+    });
   }
   
   private setup(): void {
@@ -96,6 +123,9 @@ export class PlaybackService {
     if (this.realtimeChannel) {
       this.realtimeChannel.unsubscribe();
     }
+    if (this.tagAssignmentsChannel) {
+      this.tagAssignmentsChannel.unsubscribe();
+    }
     
     // Create a new subscription
     this.realtimeChannel = supabase
@@ -121,6 +151,11 @@ export class PlaybackService {
             
             // Trigger an immediate schedule check
             this.checkScheduleImmediately();
+          } else if (JSON.stringify(newData.tags) !== JSON.stringify(oldData.tags)) {
+            this.logService.info('Screen tags have been updated');
+            
+            // Other tag assignments may apply now
+            this.checkScheduleImmediately();
           }
           
           // Check if the playlist has changed
@@ -136,6 +171,23 @@ export class PlaybackService {
       )
       .subscribe();
       
+    // Tag assignments are shared by many screens, whether one applies is resolved here
+    this.tagAssignmentsChannel = supabase
+      .channel('tag_assignments_channel')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tag_assignments'
+        },
+        () => {
+          this.logService.info('Tag assignments have been updated');
+          this.checkScheduleImmediately();
+        }
+      )
+      .subscribe();
+      
     // Log successful subscription
     this.logService.info(`Subscribed to real-time updates for screen ID: ${deviceId}`);
   }
@@ -179,8 +231,8 @@ export class PlaybackService {
             
             this.logService.info(`Current playlist updated: ${payload.new.name}`);
             
-            // Reload the current playlist to get updated content
-            this.loadPlaylist(payload.new.id);
+            // Merge the updated content into playback
+            this.refreshCurrentPlaylist(false);
           }
         }
       )
@@ -204,14 +256,14 @@ export class PlaybackService {
           if (payload.new && payload.new.playlist_id === this.currentPlaylist.id) {
             this.logService.info(`Playlist item changed for current playlist`);
             
-            // Reload the current playlist to get updated items
-            this.loadPlaylist(this.currentPlaylist.id);
+            // Merge the updated items; item edits don't always touch the playlist's lastModified
+            this.refreshCurrentPlaylist(true);
           } else if (payload.old && payload.old.playlist_id === this.currentPlaylist.id) {
             // Item was removed or reassigned from our playlist
             this.logService.info(`Playlist item removed from current playlist`);
             
-            // Reload the current playlist
-            this.loadPlaylist(this.currentPlaylist.id);
+            // Merge the updated items
+            this.refreshCurrentPlaylist(true);
           }
         }
       )
@@ -231,64 +283,13 @@ export class PlaybackService {
       return;
     }
     
-    // Get screen info from Supabase to determine which playlist to play
-    this.supabaseApi.getScreenById(deviceId).pipe(
-      switchMap(screen => {
-        if (!screen) {
-          return of({ playlistId: null });
+    // Resolve the playlist from the screen, area and item schedules
+    this.scheduleService.resolveActivePlaylist().pipe(
+      map(resolution => {
+        if (resolution.playlistId) {
+          this.logService.info(`Using playlist ${resolution.playlistId}: ${resolution.description}`);
         }
-
-        // Priority 1: Check schedule for current time
-        if (screen.schedule && screen.schedule.upcoming && screen.schedule.upcoming.length > 0) {
-          const now = new Date();
-          const currentHours = now.getHours().toString().padStart(2, '0');
-          const currentMinutes = now.getMinutes().toString().padStart(2, '0');
-          const currentTime = `${currentHours}:${currentMinutes}`; // Format: "HH:MM"
-          const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' });
-          
-          // Sort schedules by priority first, then start_time
-          const sortedSchedules = [...screen.schedule.upcoming].sort((a: PlaylistScheduleItem, b: PlaylistScheduleItem) => {
-            // First sort by priority (lower number = higher priority)
-            if (a.priority !== b.priority) {
-              return a.priority - b.priority;
-            }
-            // Then sort by start_time
-            return a.start_time.localeCompare(b.start_time);
-          });
-          
-          // Find currently active schedule
-          // In playback.service.ts, modify the schedule check code:
-          const activeSchedule = sortedSchedules.find((schedule: PlaylistScheduleItem) => {
-            const days = schedule.days_of_week || 
-                        ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-            
-            return days.includes(currentDay) && 
-                   currentTime >= schedule.start_time && 
-                   currentTime <= schedule.end_time;
-          });
-          
-          if (activeSchedule) {
-            this.logService.info(`Found active schedule for playlist: ${activeSchedule.playlist_id}`);
-            return of({ playlistId: activeSchedule.playlist_id });
-          }
-        }
-        
-        // Priority 2: Use current_playlist assigned to the screen
-        if (screen.current_playlist) {
-          this.logService.info(`Using screen's current playlist: ${screen.current_playlist}`);
-          return of({ playlistId: screen.current_playlist });
-        }
-        
-        // Priority 3: Check area_screens for a playlist
-        return this.supabaseApi.getScreenArea(deviceId).pipe(
-          map(area => {
-            if (area && area.current_playlist) {
-              this.logService.info(`Using area's playlist: ${area.current_playlist}`);
-              return { playlistId: area.current_playlist };
-            }
-            return { playlistId: null };
-          })
-        );
+        return { playlistId: resolution.playlistId };
       }),
       catchError(error => {
         this.logService.error(`Error fetching screen info: ${error.message}`);
@@ -296,8 +297,14 @@ export class PlaybackService {
         return of({ playlistId: null });
       })
     ).subscribe(result => {
+      const lastPlaylistId = localStorage.getItem(this.LAST_PLAYLIST_KEY);
+
       if (result.playlistId) {
         this.loadPlaylist(result.playlistId);
+      } else if (!navigator.onLine && lastPlaylistId) {
+        // Booted without a network and nothing resolved: keep playing what played last
+        this.logService.warn(`Offline without a schedule, playing last known playlist ${lastPlaylistId}`);
+        this.loadPlaylist(lastPlaylistId);
       } else {
         this.playbackError$.next('No playlist assigned to this screen');
       }
@@ -313,10 +320,19 @@ export class PlaybackService {
       return;
     }
     
+    // Nothing plays while the display sleeps; the schedule is resolved again on wake
+    if (this.isSleeping) {
+      this.logService.info(`Display sleeping, not loading playlist ${playlistId}`);
+      this.scheduleService.setCurrentPlaylistId(playlistId);
+      return;
+    }
+    
     this.logService.info(`Loading playlist: ${playlistId}`);
     
     // Cancel any pending transitions
     this.clearTransition();
+    this.pendingPlaylist = null;
+    this.proofOfPlayService.endItem('main', 'interrupted');
     
     // Reset current items to force UI update
     this.currentItem$.next(null);
@@ -342,16 +358,13 @@ export class PlaybackService {
           // Start playing immediately from cache
           this.processPlaylist(cachedPlaylist);
           
-          // Also fetch fresh version in background
-          return this.supabaseApi.getPlaylistById(playlistId).pipe(
-            tap(freshPlaylist => {
-              if (freshPlaylist) {
-                // Update cache for next time
-                this.contentSyncService.cachePlaylist(freshPlaylist);
-                
-                // If we're already playing, don't disrupt playback
-                // Just log that we have updated the cache
+          // Also sync it in the background, fetching only what changed
+          return this.contentSyncService.syncPlaylist(playlistId).pipe(
+            tap(result => {
+              if (result.changed && result.playlist) {
+                // Don't disrupt playback, take the update over at the next item
                 this.logService.info(`Updated cached playlist: ${playlistId}`);
+                this.mergePlaylistUpdate(result.playlist);
               }
             }),
             catchError(error => {
@@ -404,19 +417,30 @@ export class PlaybackService {
     if (playlist && playlist.items && playlist.items.length > 0) {
       // Reset internal state to ensure a fresh start
       this.currentPlaylist = playlist;
-      this.currentIndex = 0;
+      this.pendingPlaylist = null;
+      this.resumeOffset = null;
+      this.interruptedItem = null;
+      this.sequencer = this.createSequencer(playlist);
+      this.currentIndex = this.getNextIndex(playlist, this.sequencer, -1, true);
+      this.playlistStartedAt = Date.now();
+      this.contentSyncService.setPinnedPlaylists('playback', [playlist.id], [playlist]);
+      localStorage.setItem(this.LAST_PLAYLIST_KEY, playlist.id);
+      this.scheduleService.setCurrentPlaylistId(playlist.id);
       this.playbackError$.next(null);
       this.isPlaying = true;
       
       // Start preloading all content
       this.preloadAllContent(playlist);
       
+      // Publish the layout so the player can set up its zones
+      this.updateLayout(playlist);
+      
       // Update player state
       this.updatePlayerState({
         isPlaying: true,
         currentPlaylistId: playlist.id,
         currentPlaylistName: playlist.name,
-        currentItemIndex: 0,
+        currentItemIndex: this.currentIndex,
         totalItems: playlist.items.length
       });
       
@@ -443,13 +467,19 @@ export class PlaybackService {
     
     this.logService.info(`Preloading ${playlist.items.length} items from playlist`);
     
-    // Start preloading all items in the background
-    for (const item of playlist.items) {
+    // Start preloading all items in the background, including the other zones
+    const allItems = [
+      ...playlist.items,
+      ...(playlist.zones?.sidebar || []),
+      ...(playlist.zones?.ticker || [])
+    ];
+    
+    for (const item of allItems) {
       if (item.content?.url) {
-        this.contentSyncService.preloadContent(item.content.url);
+        this.contentSyncService.preloadContent(item.content.url, item);
       }
       if (item.content?.thumbnail) {
-        this.contentSyncService.preloadContent(item.content.thumbnail);
+        this.contentSyncService.preloadContent(item.content.thumbnail, item);
       }
     }
   }
@@ -465,6 +495,10 @@ export class PlaybackService {
   
   // Play the current item
   private playCurrentItem(): void {
+    if (this.isSleeping || this.isInterrupted) {
+      return;
+    }
+    
     if (!this.currentPlaylist || !this.currentPlaylist.items.length) {
       this.logService.error('No playlist or empty playlist');
       return;
@@ -472,46 +506,50 @@ export class PlaybackService {
     
     const item = this.currentPlaylist.items[this.currentIndex];
     
-    // Preload the next item
-    this.preloadNextItem();
-    
-    // Add this check to make sure the transition is completed
+    // Make sure the transition is completed
     this.isTransitioning$.next(false);
     
-    // Set the current item
-    this.currentItem$.next(null); // First set to null to force Angular change detection
+    // Swap straight to the item: the player already has it buffered from nextItem$,
+    // so there is no blank frame in between
+    this.logService.info(`Playing item: ${item.name} (${this.currentIndex + 1}/${this.currentPlaylist.items.length})`);
+    this.currentItemOffset = this.resumeOffset ?? 0;
+    this.resumeOffset = null;
+    this.itemStartedAt = Date.now() - this.currentItemOffset * 1000;
+    this.currentItem$.next(item);
+    this.proofOfPlayService.startItem(item, this.currentPlaylist.id, 'main');
     
-    // Force a delay to ensure the UI refreshes
-    setTimeout(() => {
-      this.logService.info(`Playing item: ${item.name} (${this.currentIndex + 1}/${this.currentPlaylist!.items.length})`);
-      this.currentItem$.next(item); // Then set the new item in next tick
-      
-      // Update player state
-      this.updatePlayerState({
-        isPlaying: true,
-        currentItemIndex: this.currentIndex
-      });
-    }, 50);
+    // Update player state
+    this.updatePlayerState({
+      isPlaying: true,
+      currentItemIndex: this.currentIndex
+    });
+    
+    // Buffer the item after this one
+    this.preloadNextItem();
   }
   
   // Preload the next item
   private preloadNextItem(): void {
-    if (!this.currentPlaylist || !this.currentPlaylist.items.length) {
+    // A pending update decides what comes next
+    const playlist = this.pendingPlaylist || this.currentPlaylist;
+    const sequencer = this.pendingPlaylist ? this.pendingSequencer : this.sequencer;
+    if (!playlist || !sequencer || !playlist.items.length) {
       return;
     }
     
-    // Determine the next index
-    const nextIndex = (this.currentIndex + 1) % this.currentPlaylist.items.length;
-    const nextItem = this.currentPlaylist.items[nextIndex];
+    // Determine the next index, without moving on yet
+    const index = this.pendingPlaylist ? this.getMergedIndex(this.pendingPlaylist) : this.currentIndex;
+    const nextIndex = this.getNextIndex(playlist, sequencer, index, false);
+    const nextItem = playlist.items[nextIndex];
     
     // Set the next item for preloading
     this.nextItem$.next(nextItem);
     
     // Preload the content
     if (nextItem) {
-      this.contentSyncService.preloadContent(nextItem.content.url);
+      this.contentSyncService.preloadContent(nextItem.content.url, nextItem, 'next');
       if (nextItem.content.thumbnail) {
-        this.contentSyncService.preloadContent(nextItem.content.thumbnail);
+        this.contentSyncService.preloadContent(nextItem.content.thumbnail, nextItem, 'next');
       }
     }
   }
@@ -525,8 +563,8 @@ export class PlaybackService {
     this.isTransitioning$.next(false);
   }
   
-  // Skip to next item
-  skipToNext(): void {
+  // Skip to next item, recording how the current one ended
+  skipToNext(reason: PlayEndReason = 'skipped'): void {
     if (!this.currentPlaylist || !this.currentPlaylist.items.length) {
       return;
     }
@@ -537,16 +575,24 @@ export class PlaybackService {
     // Clear any existing transition
     this.clearTransition();
     
-    // Start transition
+    this.proofOfPlayService.endItem('main', reason);
+    
+    // Start transition, publishing its type first so the player can animate it
+    const transition = this.getTransition(this.currentItem$.value);
+    this.currentTransition$.next(transition);
     this.isTransitioning$.next(true);
     
     // Wait for transition duration
-    const transitionDuration = this.getTransitionDuration();
+    const transitionDuration = transition.duration;
     
     // Store the reference to the timeout
     this.currentTransitionTimeout = setTimeout(() => {
-      // Move to the next item
-      this.currentIndex = (this.currentIndex + 1) % this.currentPlaylist!.items.length;
+      // Switch to an updated item list at this boundary
+      this.applyPendingPlaylist();
+      
+      // Move to the next item in the playback order that is within its own schedule
+      this.currentIndex = this.getNextIndex(this.currentPlaylist!, this.sequencer!, this.currentIndex, true);
+      this.resumeOffset = null;
       
       // Add another debug statement
       this.logService.info(`Transition complete. Now at index: ${this.currentIndex}`);
@@ -562,15 +608,143 @@ export class PlaybackService {
     }, transitionDuration);
   }
   
-  // Get transition duration based on current item settings
-  private getTransitionDuration(): number {
-    const currentItem = this.currentItem$.value;
+  // Fetch changes to the current playlist and merge them into playback
+  private refreshCurrentPlaylist(force: boolean): void {
+    const playlistId = this.currentPlaylist?.id;
+    if (!playlistId) {
+      return;
+    }
+    
+    this.contentSyncService.syncPlaylist(playlistId, 'playlist', force).subscribe(result => {
+      if (result.changed && result.playlist) {
+        this.mergePlaylistUpdate(result.playlist);
+      }
+    });
+  }
+  
+  /**
+   * Take over an updated version of the current playlist without restarting it.
+   * The current item plays on and the new item list is used from the next item
+   * boundary. If the current item was removed, playback moves on right away.
+   */
+  private mergePlaylistUpdate(playlist: Playlist): void {
+    if (!this.currentPlaylist || playlist.id !== this.currentPlaylist.id || this.isSleeping) {
+      return;
+    }
+    
+    // Nothing left to merge into, handle it like a fresh load
+    if (!playlist.items?.length) {
+      this.processPlaylist(playlist);
+      return;
+    }
+    
+    this.pendingPlaylist = playlist;
+    this.pendingSequencer = this.createSequencer(playlist);
+    this.contentSyncService.setPinnedPlaylists('playback', [playlist.id], [this.currentPlaylist, playlist]);
+    
+    // Nothing is on screen during an alert, what to continue with is decided when it is over
+    if (this.isInterrupted) {
+      this.logService.info(`Playlist ${playlist.id} updated during an alert, applying it when playback resumes`);
+      return;
+    }
+    
+    const current = this.currentItem$.value;
+    const stillPresent = !!current && playlist.items.some(item => item.id === current.id);
+    this.logService.info(`Playlist ${playlist.id} updated, ${stillPresent ? 'applying at the next item' : 'current item removed, skipping it'}`);
+    
+    if (!stillPresent && !this.currentTransitionTimeout) {
+      this.proofOfPlayService.endItem('main', 'interrupted');
+      this.skipToNext();
+    } else {
+      // Buffer whatever comes next in the updated list
+      this.preloadNextItem();
+    }
+  }
+  
+  // Make a pending playlist update the current playlist
+  private applyPendingPlaylist(): void {
+    const playlist = this.pendingPlaylist;
+    if (!playlist) {
+      return;
+    }
+    
+    this.pendingPlaylist = null;
+    this.currentIndex = this.getMergedIndex(playlist);
+    this.sequencer = this.pendingSequencer || this.createSequencer(playlist);
+    this.pendingSequencer = null;
+    
+    // The zones merge their own sequences, only republish when something changed
+    const layoutChanged = JSON.stringify(playlist.settings?.layout) !== JSON.stringify(this.currentPlaylist?.settings?.layout) ||
+      JSON.stringify(playlist.zones) !== JSON.stringify(this.currentPlaylist?.zones);
     
-    if (currentItem && currentItem.settings && currentItem.settings.transition !== 'none') {
-      return currentItem.settings.transitionDuration * 1000 || 500; // Default 500ms
+    this.currentPlaylist = playlist;
+    this.contentSyncService.setPinnedPlaylists('playback', [playlist.id], [playlist]);
+    if (layoutChanged) {
+      this.updateLayout(playlist);
     }
     
-    return 0; // No transition
+    this.updatePlayerState({
+      currentPlaylistName: playlist.name,
+      totalItems: playlist.items.length
+    });
+  }
+  
+  private createSequencer(playlist: Playlist): PlaybackSequencer {
+    const order = playlist.settings?.playbackOrder;
+    if (order && order.mode !== 'sequential') {
+      this.logService.info(`Playlist ${playlist.id} plays in ${order.mode} order, seed ${order.seed ?? playlist.id}`);
+    }
+    return new PlaybackSequencer(playlist.items, order, playlist.id);
+  }
+  
+  /**
+   * Item after `current` (-1 for the first) in the playback order that is within
+   * its own schedule. Peeking doesn't move the sequence on, committing does.
+   */
+  private getNextIndex(playlist: Playlist, sequencer: PlaybackSequencer, current: number, commit: boolean): number {
+    const resolver = new ScheduleResolver(() => new Date(), this.timeZoneService.timeZone);
+    const now = this.timeZoneService.now(); // Share-of-voice hours follow the screen's wall clock
+    const pick = (isPlayable: (item: PlaylistItem) => boolean) =>
+      commit ? sequencer.advance(current, isPlayable, now) : sequencer.peek(current, isPlayable, now);
+    
+    const index = pick(item => resolver.isItemActive(item.schedule));
+    if (index !== null) {
+      return index;
+    }
+    
+    // Better to keep playing than to leave the screen blank
+    this.logService.warn(`No item of playlist ${playlist.id} is within its schedule, ignoring item schedules`);
+    return pick(() => true) ?? 0;
+  }
+  
+  // Position in an updated item list that playback continues from
+  private getMergedIndex(playlist: Playlist): number {
+    const current = this.currentItem$.value || this.interruptedItem;
+    const index = current ? playlist.items.findIndex(item => item.id === current.id) : -1;
+    
+    // Continue with the item that took the place of a removed one
+    return index >= 0 ? index : Math.min(this.currentIndex, playlist.items.length) - 1;
+  }
+  
+  // Get the transition out of an item, falling back to the playlist default.
+  // The layout zones use it too, so all zones follow the same defaults and beat.
+  getTransition(item: PlaylistItem | null): ItemTransition {
+    const defaults = this.currentPlaylist?.settings?.transition;
+    const type = item?.settings?.transition || defaults?.type || 'fade';
+    
+    if (type === 'none') {
+      return { type, duration: 0 }; // No transition
+    }
+    
+    // Cut on the next beat, counted from the start of the playlist
+    if (type === 'cut-on-beat') {
+      const beat = 60000 / (defaults?.bpm || 120);
+      const elapsed = Date.now() - this.playlistStartedAt;
+      return { type, duration: Math.ceil(elapsed / beat) * beat - elapsed };
+    }
+    
+    const seconds = item?.settings?.transitionDuration || defaults?.duration;
+    return { type, duration: (seconds || 0) * 1000 || 500 }; // Default 500ms
   }
   
   // Restart playback from the beginning of the playlist
@@ -578,7 +752,14 @@ export class PlaybackService {
     // Clear any existing transition
     this.clearTransition();
     
-    this.currentIndex = 0;
+    // Start the playback order over as well
+    if (this.currentPlaylist?.items.length) {
+      this.sequencer = this.createSequencer(this.currentPlaylist);
+      this.currentIndex = this.getNextIndex(this.currentPlaylist, this.sequencer, -1, true);
+    } else {
+      this.currentIndex = 0;
+    }
+    this.resumeOffset = null;
     this.playCurrentItem();
   }
   
@@ -594,6 +775,91 @@ export class PlaybackService {
     this.updatePlayerState({ isPlaying: true });
   }
   
+  /**
+   * Hand the screen to an alert. The interrupted item continues where it
+   * stopped once the alert is over.
+   */
+  interrupt(): void {
+    if (this.isInterrupted) {
+      return;
+    }
+    
+    this.logService.info('Playback interrupted by an alert');
+    this.isInterrupted = true;
+    this.interruptedItem = this.currentItem$.value;
+    this.resumeOffset = this.currentItem$.value && !this.currentTransitionTimeout
+      ? (Date.now() - this.itemStartedAt) / 1000
+      : null;
+    this.isPlaying = false;
+    this.clearTransition();
+    this.proofOfPlayService.endItem('main', 'interrupted');
+    
+    this.currentItem$.next(null);
+    this.nextItem$.next(null);
+    this.updatePlayerState({ isPlaying: false });
+  }
+  
+  /**
+   * Continue where the alert interrupted playback
+   */
+  resumeAfterInterrupt(): void {
+    if (!this.isInterrupted) {
+      return;
+    }
+    
+    this.isInterrupted = false;
+    
+    // Waking up resolves the schedule again
+    if (this.isSleeping) {
+      this.interruptedItem = null;
+      return;
+    }
+    
+    const interrupted = this.interruptedItem;
+    if (this.pendingPlaylist) {
+      // The playlist changed during the alert; continue after the interrupted item if it was removed
+      const stillPresent = !!interrupted && this.pendingPlaylist.items.some(item => item.id === interrupted.id);
+      this.applyPendingPlaylist();
+      if (!stillPresent && this.currentPlaylist?.items.length) {
+        this.currentIndex = this.getNextIndex(this.currentPlaylist, this.sequencer!, this.currentIndex, true);
+        this.resumeOffset = null;
+      }
+    }
+    this.interruptedItem = null;
+    
+    if (this.currentPlaylist?.items.length) {
+      this.logService.info('Alert over, resuming playback');
+      this.isPlaying = true;
+      this.playCurrentItem();
+    } else {
+      this.startPlayback();
+    }
+  }
+  
+  // Blank the display outside the power schedule
+  private enterSleep(): void {
+    this.logService.info('Entering sleep mode, pausing playback');
+    this.isSleeping = true;
+    this.isPlaying = false;
+    this.clearTransition();
+    this.proofOfPlayService.endItem('main', 'interrupted');
+    
+    // No background downloads while nothing is shown
+    this.contentSyncService.setPreloadingPaused(true);
+    
+    this.currentItem$.next(null);
+    this.nextItem$.next(null);
+    this.updatePlayerState({ isPlaying: false });
+  }
+  
+  // Resume at power_on with whatever the schedule says now
+  private wake(): void {
+    this.logService.info('Waking from sleep mode, resuming playback');
+    this.isSleeping = false;
+    this.contentSyncService.setPreloadingPaused(false);
+    this.startPlayback();
+  }
+  
   // Load fallback content when primary content fails
   private loadFallbackContent(): void {
     this.logService.warn('Loading fallback content');
@@ -604,8 +870,11 @@ export class PlaybackService {
         if (fallbackPlaylist) {
           this.logService.info('Loaded fallback playlist from cache');
           this.currentPlaylist = fallbackPlaylist;
-          this.currentIndex = 0;
+          this.sequencer = this.createSequencer(fallbackPlaylist);
+          this.currentIndex = this.getNextIndex(fallbackPlaylist, this.sequencer, -1, true);
+          this.contentSyncService.setPinnedPlaylists('playback', [fallbackPlaylist.id], [fallbackPlaylist]);
           this.playbackError$.next(null);
+          this.updateLayout(fallbackPlaylist);
           
           // Update player state
           this.updatePlayerState({
@@ -631,6 +900,12 @@ export class PlaybackService {
     );
   }
   
+  // Publish the layout and zone sequences of a playlist
+  private updateLayout(playlist: Playlist): void {
+    this.currentLayout$.next(playlist.settings?.layout || { type: 'fullscreen' });
+    this.zoneItems$.next(playlist.zones || {});
+  }
+  
   // Update the player state with partial changes
   private updatePlayerState(changes: Partial<PlayerState>): void {
     const currentState = this.playerStateSubject.value;
@@ -644,11 +919,16 @@ export class PlaybackService {
   // Clean up on service destroy
   ngOnDestroy(): void {
     this.clearTransition();
+    this.proofOfPlayService.endItem('main', 'interrupted');
     
     // Clean up realtime subscriptions
     if (this.realtimeChannel) {
       this.realtimeChannel.unsubscribe();
       this.realtimeChannel = null;
     }
+    if (this.tagAssignmentsChannel) {
+      this.tagAssignmentsChannel.unsubscribe();
+      this.tagAssignmentsChannel = null;
+    }
   }
 }
\ No newline at end of file
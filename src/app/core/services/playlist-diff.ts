@@ -0,0 +1,63 @@
+// playlist-diff.ts
+import { Playlist, PlaylistItem } from '../models/playlist.model';
+
+/**
+ * Items that differ between two versions of a playlist, across all zones
+ */
+export interface PlaylistDiff {
+  added: PlaylistItem[];
+  removed: PlaylistItem[];
+  changed: PlaylistItem[]; // new version of items whose content or settings changed
+}
+
+/**
+ * All items of a playlist: the main zone and the secondary zones
+ */
+export function getAllPlaylistItems(playlist: Playlist | null): PlaylistItem[] {
+  if (!playlist) {
+    return [];
+  }
+  return [
+    ...(playlist.items || []),
+    ...(playlist.zones?.sidebar || []),
+    ...(playlist.zones?.ticker || [])
+  ];
+}
+
+/**
+ * Compare two versions of a playlist by item id
+ */
+export function diffPlaylists(previous: Playlist | null, next: Playlist): PlaylistDiff {
+  const previousItems = new Map(getAllPlaylistItems(previous).map(item => [item.id, item]));
+  const nextItems = getAllPlaylistItems(next);
+  const nextIds = new Set(nextItems.map(item => item.id));
+
+  const diff: PlaylistDiff = { added: [], removed: [], changed: [] };
+
+  nextItems.forEach(item => {
+    const old = previousItems.get(item.id);
+    if (!old) {
+      diff.added.push(item);
+    } else if (JSON.stringify(old) !== JSON.stringify(item)) {
+      diff.changed.push(item);
+    }
+  });
+
+  previousItems.forEach((item, id) => {
+    if (!nextIds.has(id)) {
+      diff.removed.push(item);
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Whether an item changed in a way that needs its files downloaded again
+ */
+export function hasContentChanged(previous: PlaylistItem | undefined, next: PlaylistItem): boolean {
+  return !previous ||
+    previous.content?.url !== next.content?.url ||
+    previous.content?.thumbnail !== next.content?.thumbnail ||
+    previous.content?.sha256 !== next.content?.sha256;
+}
@@ -0,0 +1,161 @@
+// power-schedule.service.ts
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+import { LogService } from './log.service';
+import { TimeZoneService } from './time-zone.service';
+import { ScheduleResolver, parseTimeToMinutes } from './schedule-resolver';
+import { PowerSchedule } from '../models/screen.model';
+
+/**
+ * Puts the display to sleep outside the power schedule (ScreenSettings.power_schedule)
+ * and wakes it at power_on. The power window follows the same rules as playlist
+ * schedules, including windows that cross midnight and the screen time zone.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PowerScheduleService implements OnDestroy {
+  private readonly POWER_SCHEDULE_KEY = 'powerSchedule';
+  private readonly CHECK_INTERVAL = 30000; // 30 seconds
+
+  private sleepingSubject = new BehaviorSubject<boolean>(false);
+  isSleeping$ = this.sleepingSubject.pipe(distinctUntilChanged());
+
+  private powerSchedule: PowerSchedule | null = null;
+  private checkInterval: any = null;
+  private boundaryTimeouts: any[] = [];
+
+  constructor(
+    private logService: LogService,
+    private timeZoneService: TimeZoneService
+  ) {
+    // Keep following the last known power schedule while offline
+    try {
+      const stored = localStorage.getItem(this.POWER_SCHEDULE_KEY);
+      this.powerSchedule = stored ? JSON.parse(stored) : null;
+    } catch (e) {
+      this.powerSchedule = null;
+    }
+  }
+
+  get isSleeping(): boolean {
+    return this.sleepingSubject.value;
+  }
+
+  /**
+   * Start following the power schedule
+   */
+  start(): void {
+    this.stop();
+    this.evaluate();
+    this.checkInterval = setInterval(() => this.evaluate(), this.CHECK_INTERVAL);
+  }
+
+  /**
+   * Stop following the power schedule and wake the display
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.clearBoundaryTimeouts();
+    this.sleepingSubject.next(false);
+  }
+
+  /**
+   * Update the power schedule from the screen settings
+   */
+  setPowerSchedule(powerSchedule: PowerSchedule | null | undefined): void {
+    const next = powerSchedule || null;
+    if (JSON.stringify(next) === JSON.stringify(this.powerSchedule)) {
+      return;
+    }
+
+    this.powerSchedule = next;
+    if (next) {
+      localStorage.setItem(this.POWER_SCHEDULE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(this.POWER_SCHEDULE_KEY);
+    }
+
+    this.logService.info(next?.enabled
+      ? `Power schedule updated: on at ${next.power_on}, off at ${next.power_off}`
+      : 'Power schedule disabled');
+
+    if (this.checkInterval) {
+      this.evaluate();
+    }
+  }
+
+  /**
+   * Check whether the display should be awake right now
+   */
+  isWithinPowerSchedule(now: Date = new Date()): boolean {
+    const schedule = this.powerSchedule;
+    if (!schedule?.enabled) {
+      return true;
+    }
+
+    // An incomplete schedule never turns the display off
+    if (parseTimeToMinutes(schedule.power_on) === null || parseTimeToMinutes(schedule.power_off) === null) {
+      return true;
+    }
+
+    const resolver = new ScheduleResolver(() => now, this.timeZoneService.timeZone);
+    return resolver.isEntryActive({
+      playlist_id: 'power',
+      start_time: schedule.power_on,
+      end_time: schedule.power_off,
+      priority: 0,
+      days_of_week: schedule.days_active
+    }, now);
+  }
+
+  private evaluate(): void {
+    const shouldSleep = !this.isWithinPowerSchedule();
+
+    if (shouldSleep !== this.sleepingSubject.value) {
+      this.logService.info(shouldSleep
+        ? `Outside power schedule at ${this.timeZoneService.formatTime()}, display going to sleep`
+        : `Power schedule active at ${this.timeZoneService.formatTime()}, waking display`);
+      this.sleepingSubject.next(shouldSleep);
+    }
+
+    this.scheduleBoundaryChecks();
+  }
+
+  /**
+   * Re-evaluate exactly at power_on and power_off instead of waiting for the next interval
+   */
+  private scheduleBoundaryChecks(): void {
+    this.clearBoundaryTimeouts();
+
+    const schedule = this.powerSchedule;
+    if (!schedule?.enabled) {
+      return;
+    }
+
+    [schedule.power_on, schedule.power_off].forEach(time => {
+      const minutes = parseTimeToMinutes(time);
+      if (minutes === null) {
+        return;
+      }
+
+      const msToTime = this.timeZoneService.msUntil(Math.floor(minutes / 60), minutes % 60);
+      if (msToTime < this.CHECK_INTERVAL) {
+        this.boundaryTimeouts.push(setTimeout(() => this.evaluate(), msToTime + 100));
+      }
+    });
+  }
+
+  private clearBoundaryTimeouts(): void {
+    this.boundaryTimeouts.forEach(id => clearTimeout(id));
+    this.boundaryTimeouts = [];
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+}
@@ -0,0 +1,321 @@
+// proof-of-play.service.ts
+import { Injectable, OnDestroy, PLATFORM_ID, Inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { LogService } from './log.service';
+import { supabase } from './supabase.config';
+import { LayoutZoneId, PlaylistItem } from '../models/playlist.model';
+import { ProofOfPlayRecord } from '../models/proof-of-play.model';
+
+// An item that is on screen right now
+interface ActivePlay {
+  screenId: string;
+  item: PlaylistItem;
+  playlistId: string | null;
+  startedAt: number;
+}
+
+/**
+ * Records every item that played (per zone) for advertiser proof-of-play.
+ * Records are queued in IndexedDB first and uploaded in batches to the
+ * proof_of_play table, so plays are kept while the screen is offline.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProofOfPlayService implements OnDestroy {
+  private readonly DB_NAME = 'digital-signage-pop';
+  private readonly UNLOAD_KEY = 'proofOfPlayOnUnload';
+  private readonly QUEUE_STORE = 'queue';
+  private readonly BATCH_SIZE = 100;
+  private readonly UPLOAD_INTERVAL = 60000; // 1 minute
+
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<boolean> | null = null;
+  private isBrowser: boolean;
+  private activePlays = new Map<LayoutZoneId, ActivePlay>();
+  private uploadInterval: any = null;
+  private isUploading = false;
+  private queuedSinceUpload = 0;
+
+  constructor(
+    private logService: LogService,
+    @Inject(PLATFORM_ID) private platformId: any
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+
+    if (this.isBrowser) {
+      this.initPromise = this.initDatabase();
+      this.restoreUnloadRecords();
+
+      // Upload regularly and as soon as the connection comes back
+      this.uploadInterval = setInterval(() => this.upload(), this.UPLOAD_INTERVAL);
+      window.addEventListener('online', () => this.upload());
+
+      // Whatever is on screen when the player closes was interrupted
+      window.addEventListener('beforeunload', () => this.flushOnUnload());
+    }
+  }
+
+  /**
+   * Record that an item started playing in a zone. An item still playing in
+   * that zone is recorded as interrupted. Nothing is recorded before the screen
+   * is registered, there is no screen to attribute the play to.
+   */
+  startItem(item: PlaylistItem, playlistId: string | null, zone: LayoutZoneId = 'main'): void {
+    this.endItem(zone, 'interrupted');
+
+    const screenId = this.deviceId;
+    if (screenId) {
+      this.activePlays.set(zone, { screenId, item, playlistId, startedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Record that the item playing in a zone ended
+   */
+  endItem(zone: LayoutZoneId, status: ProofOfPlayRecord['status']): void {
+    const play = this.activePlays.get(zone);
+    if (!play) {
+      return;
+    }
+    this.activePlays.delete(zone);
+    this.enqueue(this.createRecord(zone, play, status));
+  }
+
+  /**
+   * Number of records waiting to be uploaded (for diagnostics)
+   */
+  async getQueueSize(): Promise<number> {
+    const db = await this.getDatabase();
+    if (!db) {
+      return 0;
+    }
+
+    return new Promise(resolve => {
+      const request = db.transaction([this.QUEUE_STORE], 'readonly').objectStore(this.QUEUE_STORE).count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(0);
+    });
+  }
+
+  /**
+   * Upload queued records in batches and remove them from the queue once stored
+   */
+  async upload(): Promise<void> {
+    if (!this.isBrowser || this.isUploading || !this.deviceId || !navigator.onLine) {
+      return;
+    }
+
+    const db = await this.getDatabase();
+    if (!db) {
+      return;
+    }
+
+    this.isUploading = true;
+    this.queuedSinceUpload = 0;
+
+    try {
+      let batch = await this.readBatch(db);
+      while (batch.length > 0) {
+        // Upsert on id so a batch that is retried after a lost response is not counted twice
+        const { error } = await supabase
+          .from('proof_of_play')
+          .upsert(batch, { onConflict: 'id' });
+
+        if (error) {
+          this.logService.warn(`Proof-of-play upload failed, keeping ${batch.length} records queued: ${error.message}`);
+          return;
+        }
+
+        await this.removeRecords(db, batch.map(record => record.id));
+        this.logService.debug(`Uploaded ${batch.length} proof-of-play records`);
+
+        batch = batch.length === this.BATCH_SIZE ? await this.readBatch(db) : [];
+      }
+    } catch (error) {
+      this.logService.warn(`Error uploading proof-of-play records: ${error}`);
+    } finally {
+      this.isUploading = false;
+    }
+  }
+
+  private createRecord(zone: LayoutZoneId, play: ActivePlay, status: ProofOfPlayRecord['status']): ProofOfPlayRecord {
+    const endedAt = Date.now();
+    return {
+      id: this.createId(),
+      screen_id: play.screenId,
+      playlist_id: play.playlistId,
+      item_id: play.item.id,
+      item_name: play.item.name,
+      content_url: play.item.content?.url || null,
+      zone,
+      started_at: new Date(play.startedAt).toISOString(),
+      ended_at: new Date(endedAt).toISOString(),
+      duration_ms: endedAt - play.startedAt,
+      scheduled_duration: play.item.duration || 0,
+      status
+    };
+  }
+
+  /**
+   * A write to IndexedDB does not complete while the page unloads, so the plays
+   * that are open at that moment are written to local storage synchronously and
+   * queued when the player starts again
+   */
+  private flushOnUnload(): void {
+    const records = [...this.activePlays.entries()].map(([zone, play]) => this.createRecord(zone, play, 'interrupted'));
+    this.activePlays.clear();
+    if (!records.length) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.UNLOAD_KEY, JSON.stringify([...this.readUnloadRecords(), ...records]));
+    } catch (e) {
+      // Storage is full, these plays are lost
+    }
+  }
+
+  private async restoreUnloadRecords(): Promise<void> {
+    const records = this.readUnloadRecords();
+    const db = await this.getDatabase();
+    if (!records.length || !db) {
+      return;
+    }
+
+    const transaction = db.transaction([this.QUEUE_STORE], 'readwrite');
+    const store = transaction.objectStore(this.QUEUE_STORE);
+    records.forEach(record => store.put(record));
+
+    transaction.oncomplete = () => {
+      localStorage.removeItem(this.UNLOAD_KEY);
+      this.logService.debug(`Queued ${records.length} proof-of-play records from the last session`);
+    };
+    transaction.onerror = (event) => {
+      this.logService.error(`Error queueing proof-of-play records from the last session: ${(event.target as any).error}`);
+    };
+  }
+
+  private readUnloadRecords(): ProofOfPlayRecord[] {
+    try {
+      const stored = localStorage.getItem(this.UNLOAD_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private enqueue(record: ProofOfPlayRecord): void {
+    this.getDatabase().then(db => {
+      if (!db) {
+        this.logService.warn(`Proof-of-play record for ${record.item_name} could not be queued`);
+        return;
+      }
+
+      const transaction = db.transaction([this.QUEUE_STORE], 'readwrite');
+      transaction.objectStore(this.QUEUE_STORE).put(record);
+
+      transaction.oncomplete = () => {
+        this.logService.debug(`Proof-of-play: ${record.item_name} ${record.status} after ${Math.round(record.duration_ms / 1000)}s`);
+
+        // Don't let a full batch wait for the next interval
+        if (++this.queuedSinceUpload >= this.BATCH_SIZE) {
+          this.upload();
+        }
+      };
+
+      transaction.onerror = (event) => {
+        this.logService.error(`Error queueing proof-of-play record: ${(event.target as any).error}`);
+      };
+    });
+  }
+
+  private readBatch(db: IDBDatabase): Promise<ProofOfPlayRecord[]> {
+    return new Promise((resolve, reject) => {
+      const records: ProofOfPlayRecord[] = [];
+      const index = db.transaction([this.QUEUE_STORE], 'readonly').objectStore(this.QUEUE_STORE).index('started_at');
+      const request = index.openCursor();
+
+      // Oldest plays first
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && records.length < this.BATCH_SIZE) {
+          records.push(cursor.value as ProofOfPlayRecord);
+          cursor.continue();
+        } else {
+          resolve(records);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private removeRecords(db: IDBDatabase, ids: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.QUEUE_STORE], 'readwrite');
+      const store = transaction.objectStore(this.QUEUE_STORE);
+      ids.forEach(id => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private initDatabase(): Promise<boolean> {
+    return new Promise(resolve => {
+      try {
+        const request = indexedDB.open(this.DB_NAME, 1);
+
+        request.onupgradeneeded = (event) => {
+          const db = (event.target as IDBOpenDBRequest).result;
+          if (!db.objectStoreNames.contains(this.QUEUE_STORE)) {
+            const store = db.createObjectStore(this.QUEUE_STORE, { keyPath: 'id' });
+            store.createIndex('started_at', 'started_at', { unique: false });
+          }
+        };
+
+        request.onsuccess = (event) => {
+          this.db = (event.target as IDBOpenDBRequest).result;
+          resolve(true);
+        };
+
+        request.onerror = (event) => {
+          this.logService.error('Proof-of-play database error: ' + (event.target as any).error);
+          resolve(false);
+        };
+      } catch (error) {
+        this.logService.error('Fatal error initializing proof-of-play database: ' + error);
+        resolve(false);
+      }
+    });
+  }
+
+  private async getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.initPromise) {
+      return null;
+    }
+    return (await this.initPromise) ? this.db : null;
+  }
+
+  // Read on use: the device may register after the service was created
+  private get deviceId(): string | null {
+    return this.isBrowser ? localStorage.getItem('deviceId') : null;
+  }
+
+  // The id column is a uuid, randomUUID is missing outside secure contexts
+  private createId(): string {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      return crypto.randomUUID();
+    }
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+      const random = Math.random() * 16 | 0;
+      return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.uploadInterval) {
+      clearInterval(this.uploadInterval);
+      this.uploadInterval = null;
+    }
+  }
+}
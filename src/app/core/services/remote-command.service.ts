@@ -0,0 +1,306 @@
+// remote-command.service.ts
+import { Injectable, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { LogService } from './log.service';
+import { PlaybackService } from './playback.service';
+import { ContentSyncService } from './content-sync.service';
+import { ScreenshotService } from './screenshot.service';
+import { supabase } from './supabase.config';
+import { ScreenCommand, ScreenCommandStatus } from '../models/screen-command.model';
+import { PlayerState } from '../models/player-state.model';
+import { environment } from '../../../environments/environment';
+
+// What a command produced, and anything that has to wait until the result is reported
+interface CommandOutcome {
+  result?: Record<string, any>;
+  afterReport?: () => void;
+}
+
+/**
+ * Runs the commands ops queue for this screen in the screen_commands table.
+ * New commands arrive over realtime; a poll picks up anything sent while the
+ * channel was down. Every command is acknowledged before it runs and its
+ * result is written back, one command at a time in the order they were sent.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RemoteCommandService implements OnDestroy {
+  private deviceId: string | null = null;
+  private channel: any = null;
+  private pollInterval: any = null;
+  private queue: Promise<void> = Promise.resolve();
+  private seenCommandIds = new Set<string>();
+  private readonly onOnline = () => this.poll();
+
+  constructor(
+    private router: Router,
+    private logService: LogService,
+    private playbackService: PlaybackService,
+    private contentSyncService: ContentSyncService,
+    private screenshotService: ScreenshotService
+  ) {}
+
+  /**
+   * Start listening for commands for the registered screen
+   */
+  start(): void {
+    const deviceId = localStorage.getItem('deviceId');
+    if (!deviceId) {
+      this.logService.warn('No device ID found, remote commands are disabled');
+      return;
+    }
+    if (deviceId === this.deviceId) {
+      return;
+    }
+
+    this.stop();
+    this.deviceId = deviceId;
+
+    this.channel = supabase
+      .channel('screen_commands_channel')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'screen_commands',
+          filter: `screen_id=eq.${deviceId}`
+        },
+        (payload: { new: any }) => this.enqueue(payload.new as ScreenCommand)
+      )
+      .subscribe();
+
+    this.pollInterval = setInterval(() => this.poll(), environment.commandPollInterval);
+    window.addEventListener('online', this.onOnline);
+    this.poll();
+
+    this.logService.info(`Listening for remote commands for screen ID: ${deviceId}`);
+  }
+
+  /**
+   * Stop listening for commands
+   */
+  stop(): void {
+    if (this.channel) {
+      this.channel.unsubscribe();
+      this.channel = null;
+    }
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    window.removeEventListener('online', this.onOnline);
+    this.deviceId = null;
+  }
+
+  /**
+   * Fetch the commands that are still pending
+   */
+  private async poll(): Promise<void> {
+    if (!this.deviceId || !navigator.onLine) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('screen_commands')
+        .select('*')
+        .eq('screen_id', this.deviceId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        this.logService.warn(`Could not fetch remote commands: ${error.message}`);
+        return;
+      }
+
+      (data as ScreenCommand[] || []).forEach(command => this.enqueue(command));
+    } catch (error) {
+      this.logService.warn(`Error fetching remote commands: ${error}`);
+    }
+  }
+
+  /**
+   * Queue a command; the realtime event and the poll may both deliver it
+   */
+  private enqueue(command: ScreenCommand): void {
+    if (!command?.id || command.status !== 'pending' || this.seenCommandIds.has(command.id)) {
+      return;
+    }
+
+    this.seenCommandIds.add(command.id);
+    this.queue = this.queue.then(() => this.process(command));
+  }
+
+  private async process(command: ScreenCommand): Promise<void> {
+    if (!(await this.acknowledge(command))) {
+      return;
+    }
+
+    this.logService.info(`Running remote command ${command.command} (${command.id})`);
+
+    let outcome: CommandOutcome;
+    try {
+      outcome = await this.execute(command);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      this.logService.error(`Remote command ${command.command} failed: ${message}`);
+      await this.report(command, 'failed', { error: message });
+      return;
+    }
+
+    await this.report(command, 'completed', outcome.result || {});
+    outcome.afterReport?.();
+  }
+
+  /**
+   * Claim a pending command. Returns false if it was already handled or the
+   * claim could not be written; the latter is retried by the next poll.
+   */
+  private async acknowledge(command: ScreenCommand): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('screen_commands')
+        .update({ status: 'acknowledged', acknowledged_at: new Date().toISOString() })
+        .eq('id', command.id)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) {
+        this.logService.warn(`Could not acknowledge remote command ${command.id}: ${error.message}`);
+        this.seenCommandIds.delete(command.id);
+        return false;
+      }
+
+      return !!data?.length;
+    } catch (error) {
+      this.logService.warn(`Error acknowledging remote command ${command.id}: ${error}`);
+      this.seenCommandIds.delete(command.id);
+      return false;
+    }
+  }
+
+  private async report(command: ScreenCommand, status: ScreenCommandStatus, result: Record<string, any>): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('screen_commands')
+        .update({ status, result, completed_at: new Date().toISOString() })
+        .eq('id', command.id);
+
+      if (error) {
+        this.logService.warn(`Could not report result of remote command ${command.id}: ${error.message}`);
+      }
+    } catch (error) {
+      this.logService.warn(`Error reporting result of remote command ${command.id}: ${error}`);
+    }
+  }
+
+  private async execute(command: ScreenCommand): Promise<CommandOutcome> {
+    switch (command.command) {
+      case 'reload_playlist': {
+        const state = await this.getPlayerState();
+        if (!this.showPlayer()) {
+          this.playbackService.reloadPlaylist();
+        }
+        return { result: { playlist_id: state.currentPlaylistId } };
+      }
+
+      case 'restart_playback': {
+        if (!this.showPlayer()) {
+          this.playbackService.restartPlayback();
+        }
+        return {};
+      }
+
+      case 'clear_cache': {
+        const cleared = await firstValueFrom(this.contentSyncService.clearCache());
+        if (!cleared) {
+          throw new Error('Content cache could not be cleared');
+        }
+
+        // The cleared blob URLs are gone, so download the playlist again
+        this.playbackService.reloadPlaylist();
+        return { result: { cache_size: (await this.contentSyncService.getStorageStatus()).cacheSize } };
+      }
+
+      case 'open_diagnostics': {
+        await this.router.navigate(['/diagnostics']);
+        return { result: await this.collectDiagnostics() };
+      }
+
+      case 'screenshot': {
+        const screenshot = await this.screenshotService.captureAndUpload();
+        return { result: { ...screenshot, bucket: environment.screenshots.bucket } };
+      }
+
+      case 'reboot':
+        return { afterReport: () => window.location.reload() };
+
+      case 're_register':
+        return {
+          afterReport: () => {
+            this.stop();
+            localStorage.clear();
+            sessionStorage.clear();
+
+            // Start over from a fresh page so no service keeps the old screen ID
+            this.contentSyncService.clearCache().subscribe(() => {
+              this.router.navigate(['/registration']).then(() => window.location.reload());
+            });
+          }
+        };
+
+      default:
+        throw new Error(`Unsupported command: ${command.command}`);
+    }
+  }
+
+  /**
+   * Navigate back to the player if another page is open. Returns true if it
+   * did, as the player starts playback by itself.
+   */
+  private showPlayer(): boolean {
+    if (this.router.url.startsWith('/player')) {
+      return false;
+    }
+
+    this.router.navigate(['/player']);
+    return true;
+  }
+
+  private async collectDiagnostics(): Promise<Record<string, any>> {
+    const state = await this.getPlayerState();
+    const storage = await this.contentSyncService.getStorageStatus();
+
+    return {
+      app_version: environment.appVersion,
+      online: navigator.onLine,
+      user_agent: navigator.userAgent,
+      screen_size: `${window.screen.width}x${window.screen.height}`,
+      player: {
+        is_playing: state.isPlaying,
+        playlist_id: state.currentPlaylistId,
+        playlist_name: state.currentPlaylistName,
+        item_index: state.currentItemIndex,
+        total_items: state.totalItems
+      },
+      storage: {
+        quota: storage.quota,
+        usage: storage.usage,
+        persisted: storage.persisted,
+        cache_size: storage.cacheSize,
+        cache_limit: storage.cacheLimit
+      }
+    };
+  }
+
+  private getPlayerState(): Promise<PlayerState> {
+    return firstValueFrom(this.playbackService.playerState$);
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+}
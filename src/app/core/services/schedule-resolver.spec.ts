@@ -0,0 +1,435 @@
+import { ScheduleResolver, findTimelineSegment, parseTimeToMinutes } from './schedule-resolver';
+import { PlaylistScheduleBase } from '../models/screen.model';
+import { PlaylistItemSchedule } from '../models/playlist.model';
+
+// 2024-01-01 is a Monday
+const at = (date: string, time: string) => () => new Date(`${date}T${time}`);
+
+const schedule = (overrides: Partial<PlaylistScheduleBase>): PlaylistScheduleBase => ({
+  playlist_id: 'playlist',
+  start_time: '09:00',
+  end_time: '17:00',
+  priority: 1,
+  days_of_week: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  ...overrides
+});
+
+describe('ScheduleResolver', () => {
+  describe('parseTimeToMinutes', () => {
+    it('should parse HH:MM and HH:MM:SS', () => {
+      expect(parseTimeToMinutes('09:30')).toBe(570);
+      expect(parseTimeToMinutes('09:30:00')).toBe(570);
+      expect(parseTimeToMinutes('9:05')).toBe(545);
+    });
+
+    it('should reject invalid values', () => {
+      expect(parseTimeToMinutes('')).toBeNull();
+      expect(parseTimeToMinutes('25:00')).toBeNull();
+      expect(parseTimeToMinutes('noon')).toBeNull();
+      expect(parseTimeToMinutes(undefined)).toBeNull();
+    });
+  });
+
+  describe('priority ties', () => {
+    it('should pick the lowest priority number', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '10:00:00'));
+      const result = resolver.resolve({
+        screenSchedules: [
+          schedule({ playlist_id: 'low', priority: 5 }),
+          schedule({ playlist_id: 'high', priority: 1 })
+        ]
+      });
+
+      expect(result.playlistId).toBe('high');
+      expect(result.reason).toBe('schedule');
+    });
+
+    it('should prefer screen over area over item schedules on equal priority', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '10:00:00'));
+
+      expect(resolver.resolve({
+        screenSchedules: [schedule({ playlist_id: 'screen' })],
+        areaSchedules: [schedule({ playlist_id: 'area' })],
+        itemSchedules: [schedule({ playlist_id: 'item' })]
+      }).playlistId).toBe('screen');
+
+      expect(resolver.resolve({
+        areaSchedules: [schedule({ playlist_id: 'area' })],
+        itemSchedules: [schedule({ playlist_id: 'item' })]
+      }).playlistId).toBe('area');
+    });
+
+    it('should rank tag schedules between area and item schedules', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '10:00:00'));
+
+      expect(resolver.resolve({
+        areaSchedules: [schedule({ playlist_id: 'area' })],
+        tagSchedules: [schedule({ playlist_id: 'tag' })]
+      }).playlistId).toBe('area');
+
+      const result = resolver.resolve({
+        tagSchedules: [schedule({ playlist_id: 'tag' })],
+        itemSchedules: [schedule({ playlist_id: 'item' })]
+      });
+      expect(result.playlistId).toBe('tag');
+      expect(result.schedule?.source).toBe('tag');
+    });
+
+    it('should prefer the earliest start time within the same source', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '10:00:00'));
+      const result = resolver.resolve({
+        screenSchedules: [
+          schedule({ playlist_id: 'later', start_time: '09:30' }),
+          schedule({ playlist_id: 'earlier', start_time: '08:00' })
+        ]
+      });
+
+      expect(result.playlistId).toBe('earlier');
+    });
+
+    it('should be deterministic regardless of input order', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '10:00:00'));
+      const a = schedule({ playlist_id: 'a' });
+      const b = schedule({ playlist_id: 'b' });
+
+      expect(resolver.resolve({ screenSchedules: [a, b] }).playlistId).toBe('a');
+      expect(resolver.resolve({ screenSchedules: [b, a] }).playlistId).toBe('a');
+    });
+  });
+
+  describe('day boundaries', () => {
+    it('should include the start minute and exclude the end minute', () => {
+      const entry = schedule({ start_time: '09:00', end_time: '12:00' });
+
+      expect(new ScheduleResolver(at('2024-01-01', '09:00:00')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-01', '11:59:59')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-01', '12:00:00')).isEntryActive(entry)).toBeFalse();
+    });
+
+    it('should hand over cleanly between back-to-back schedules', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '12:00:00'));
+      const result = resolver.resolve({
+        screenSchedules: [
+          schedule({ playlist_id: 'morning', start_time: '06:00', end_time: '12:00' }),
+          schedule({ playlist_id: 'afternoon', start_time: '12:00', end_time: '18:00' })
+        ]
+      });
+
+      expect(result.playlistId).toBe('afternoon');
+    });
+
+    it('should treat 23:59 as running until midnight', () => {
+      const entry = schedule({ start_time: '18:00', end_time: '23:59' });
+
+      expect(new ScheduleResolver(at('2024-01-01', '23:59:30')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-02', '00:00:00')).isEntryActive(entry)).toBeFalse();
+    });
+
+    it('should use the new day after midnight', () => {
+      const mondayOnly = schedule({ start_time: '00:00', end_time: '23:59', days_of_week: ['Monday'] });
+
+      expect(new ScheduleResolver(at('2024-01-01', '23:59:59')).isEntryActive(mondayOnly)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-02', '00:00:00')).isEntryActive(mondayOnly)).toBeFalse();
+      expect(new ScheduleResolver(at('2023-12-31', '23:59:59')).isEntryActive(mondayOnly)).toBeFalse();
+    });
+  });
+
+  describe('overnight windows', () => {
+    // 2024-01-05 is a Friday
+    const fridayNight = schedule({ playlist_id: 'night', start_time: '22:00', end_time: '02:00', days_of_week: ['Friday'] });
+
+    it('should be active on both sides of midnight', () => {
+      expect(new ScheduleResolver(at('2024-01-05', '22:00:00')).isEntryActive(fridayNight)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-05', '23:30:00')).isEntryActive(fridayNight)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-06', '00:00:00')).isEntryActive(fridayNight)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-06', '01:59:59')).isEntryActive(fridayNight)).toBeTrue();
+    });
+
+    it('should end at end_time on the following day', () => {
+      expect(new ScheduleResolver(at('2024-01-06', '02:00:00')).isEntryActive(fridayNight)).toBeFalse();
+      expect(new ScheduleResolver(at('2024-01-05', '21:59:59')).isEntryActive(fridayNight)).toBeFalse();
+    });
+
+    it('should check days_of_week against the day the window started', () => {
+      // Friday 01:00 belongs to Thursday night's window
+      expect(new ScheduleResolver(at('2024-01-05', '01:00:00')).isEntryActive(fridayNight)).toBeFalse();
+      // Saturday 23:00 starts a Saturday window
+      expect(new ScheduleResolver(at('2024-01-06', '23:00:00')).isEntryActive(fridayNight)).toBeFalse();
+    });
+
+    it('should win over the default playlist after midnight', () => {
+      const resolver = new ScheduleResolver(at('2024-01-06', '01:00:00'));
+      const result = resolver.resolve({ screenSchedules: [fridayNight], defaultPlaylistId: 'default' });
+
+      expect(result.playlistId).toBe('night');
+    });
+  });
+
+  describe('date ranges and exceptions', () => {
+    it('should only apply an entry between its start and end date', () => {
+      const campaign = schedule({ start_date: '2024-03-01', end_date: '2024-03-31' });
+
+      expect(new ScheduleResolver(at('2024-02-29', '10:00:00')).isEntryActive(campaign)).toBeFalse();
+      expect(new ScheduleResolver(at('2024-03-01', '10:00:00')).isEntryActive(campaign)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-03-31', '10:00:00')).isEntryActive(campaign)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-04-01', '10:00:00')).isEntryActive(campaign)).toBeFalse();
+    });
+
+    it('should skip blackout dates', () => {
+      const entry = schedule({ blackout_dates: ['2024-12-25'] });
+
+      expect(new ScheduleResolver(at('2024-12-24', '10:00:00')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-12-25', '10:00:00')).isEntryActive(entry)).toBeFalse();
+    });
+
+    it('should check dates of an overnight window against the day it started', () => {
+      const entry = schedule({ start_time: '22:00', end_time: '02:00', end_date: '2024-03-31', blackout_dates: ['2024-03-15'] });
+
+      expect(new ScheduleResolver(at('2024-04-01', '01:00:00')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-03-16', '01:00:00')).isEntryActive(entry)).toBeFalse();
+    });
+
+    it('should let a one-off entry override recurring entries on its date only', () => {
+      const entries = [
+        schedule({ playlist_id: 'regular', priority: 1 }),
+        schedule({ playlist_id: 'holiday', priority: 10, date: '2024-12-25', days_of_week: ['Monday'] })
+      ];
+
+      expect(new ScheduleResolver(at('2024-12-25', '10:00:00')).resolve({ screenSchedules: entries }).playlistId).toBe('holiday');
+      expect(new ScheduleResolver(at('2024-12-26', '10:00:00')).resolve({ screenSchedules: entries }).playlistId).toBe('regular');
+    });
+
+    it('should never choose a playlist outside its campaign dates', () => {
+      const input = {
+        screenSchedules: [schedule({ playlist_id: 'promo' })],
+        defaultPlaylistId: 'default',
+        playlistDateRanges: { promo: { startDate: '2024-06-01', endDate: '2024-06-30' } }
+      };
+
+      expect(new ScheduleResolver(at('2024-06-15', '10:00:00')).resolve(input).playlistId).toBe('promo');
+      expect(new ScheduleResolver(at('2024-07-01', '10:00:00')).resolve(input).playlistId).toBe('default');
+    });
+
+    it('should compare campaign timestamps exactly', () => {
+      const input = {
+        defaultPlaylistId: 'promo',
+        areaPlaylistId: 'area',
+        playlistDateRanges: { promo: { startDate: new Date('2024-06-01T12:00:00').toISOString() } }
+      };
+
+      expect(new ScheduleResolver(at('2024-06-01', '11:59:00')).resolve(input).playlistId).toBe('area');
+      expect(new ScheduleResolver(at('2024-06-01', '12:00:00')).resolve(input).playlistId).toBe('promo');
+    });
+  });
+
+  describe('time zones', () => {
+    // Absolute instants so the tests do not depend on the machine time zone
+    const instant = (iso: string) => () => new Date(iso);
+
+    it('should evaluate windows in the screen time zone', () => {
+      // 08:30 UTC is 09:30 in Amsterdam (winter time) and 03:30 in New York
+      const entries = [schedule({ playlist_id: 'office', start_time: '09:00', end_time: '17:00' })];
+
+      const amsterdam = new ScheduleResolver(instant('2024-01-01T08:30:00Z'), 'Europe/Amsterdam');
+      const newYork = new ScheduleResolver(instant('2024-01-01T08:30:00Z'), 'America/New_York');
+
+      expect(amsterdam.resolve({ screenSchedules: entries }).playlistId).toBe('office');
+      expect(newYork.resolve({ screenSchedules: entries }).playlistId).toBeNull();
+    });
+
+    it('should use the day of week in the screen time zone', () => {
+      // Monday 02:00 UTC is still Sunday evening in Los Angeles
+      const resolver = new ScheduleResolver(instant('2024-01-01T02:00:00Z'), 'America/Los_Angeles');
+      const result = resolver.resolve({
+        screenSchedules: [
+          schedule({ playlist_id: 'monday', start_time: '00:00', end_time: '23:59', days_of_week: ['Monday'] }),
+          schedule({ playlist_id: 'sunday', start_time: '00:00', end_time: '23:59', days_of_week: ['Sunday'] })
+        ]
+      });
+      expect(result.playlistId).toBe('sunday');
+    });
+
+    it('should follow daylight saving time changes', () => {
+      // 09:00 in Amsterdam is 08:00 UTC in winter and 07:00 UTC in summer
+      const entries = [schedule({ playlist_id: 'office', start_time: '09:00', end_time: '17:00' })];
+
+      expect(new ScheduleResolver(instant('2024-01-15T08:00:00Z'), 'Europe/Amsterdam')
+        .resolve({ screenSchedules: entries }).playlistId).toBe('office');
+      expect(new ScheduleResolver(instant('2024-07-15T07:00:00Z'), 'Europe/Amsterdam')
+        .resolve({ screenSchedules: entries }).playlistId).toBe('office');
+      expect(new ScheduleResolver(instant('2024-07-15T06:59:00Z'), 'Europe/Amsterdam')
+        .resolve({ screenSchedules: entries }).playlistId).toBeNull();
+    });
+
+    it('should check dates against the calendar day in the screen time zone', () => {
+      // 2024-01-01 23:30 UTC is already 2024-01-02 in Tokyo
+      const resolver = new ScheduleResolver(instant('2024-01-01T23:30:00Z'), 'Asia/Tokyo');
+      const result = resolver.resolve({
+        screenSchedules: [
+          schedule({ playlist_id: 'holiday', start_time: '00:00', end_time: '23:59', date: '2024-01-02', priority: 10 }),
+          schedule({ playlist_id: 'regular', start_time: '00:00', end_time: '23:59' })
+        ]
+      });
+      expect(result.playlistId).toBe('holiday');
+    });
+
+    it('should fall back to the device time zone for an unknown time zone', () => {
+      const clock = at('2024-01-01', '10:00:00');
+      const resolver = new ScheduleResolver(clock, 'Not/A_Zone');
+      expect(resolver.resolve({ screenSchedules: [schedule({ playlist_id: 'office' })] }).playlistId).toBe('office');
+    });
+  });
+
+  describe('timeline', () => {
+    it('should merge minutes into segments at schedule boundaries', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '08:00:30'));
+      const segments = resolver.buildTimeline({
+        screenSchedules: [schedule({ playlist_id: 'office', start_time: '09:00', end_time: '17:00' })],
+        defaultPlaylistId: 'default'
+      }, undefined, 1);
+
+      expect(segments.map(segment => segment.playlistId)).toEqual(['default', 'office', 'default']);
+      expect(new Date(segments[0].start).getTime()).toBe(new Date('2024-01-01T08:00:00').getTime());
+      expect(new Date(segments[1].start).getTime()).toBe(new Date('2024-01-01T09:00:00').getTime());
+      expect(new Date(segments[1].end).getTime()).toBe(new Date('2024-01-01T17:00:00').getTime());
+      expect(new Date(segments[2].end).getTime()).toBe(new Date('2024-01-02T08:00:00').getTime());
+    });
+
+    it('should cover every day of the requested window', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '00:00:00'));
+      const segments = resolver.buildTimeline({
+        screenSchedules: [schedule({ playlist_id: 'weekend', start_time: '00:00', end_time: '23:59', days_of_week: ['Saturday', 'Sunday'] })],
+        defaultPlaylistId: 'default'
+      });
+
+      expect(segments.map(segment => segment.playlistId)).toEqual(['default', 'weekend']);
+      expect(new Date(segments[1].start).getTime()).toBe(new Date('2024-01-06T00:00:00').getTime());
+      expect(new Date(segments[1].end).getTime()).toBe(new Date('2024-01-08T00:00:00').getTime());
+    });
+
+    it('should find the segment covering a moment', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '08:00:00'));
+      const segments = resolver.buildTimeline({
+        screenSchedules: [schedule({ playlist_id: 'office', start_time: '09:00', end_time: '17:00' })],
+        defaultPlaylistId: 'default'
+      }, undefined, 1);
+
+      expect(findTimelineSegment(segments, new Date('2024-01-01T08:59:59'))?.playlistId).toBe('default');
+      expect(findTimelineSegment(segments, new Date('2024-01-01T09:00:00'))?.playlistId).toBe('office');
+      expect(findTimelineSegment(segments, new Date('2024-01-03T09:00:00'))).toBeNull();
+    });
+
+    it('should match a minute by minute resolution across a daylight saving change', () => {
+      // Berlin moves from 02:00 to 03:00 on 2024-03-31
+      const resolver = new ScheduleResolver(() => new Date('2024-03-30T12:00:00Z'), 'Europe/Berlin');
+      const input = {
+        screenSchedules: [
+          schedule({ playlist_id: 'night', start_time: '22:00', end_time: '02:30' }),
+          schedule({ playlist_id: 'morning', start_time: '06:15', end_time: '11:00', days_of_week: ['Sunday'] })
+        ],
+        defaultPlaylistId: 'default',
+        playlistDateRanges: { morning: { endDate: '2024-03-31T08:30:00Z' } }
+      };
+      const segments = resolver.buildTimeline(input, undefined, 2);
+
+      for (let time = new Date('2024-03-30T12:00:00Z').getTime(); time < new Date('2024-04-01T12:00:00Z').getTime(); time += 60000) {
+        const now = new Date(time);
+        expect(findTimelineSegment(segments, now)?.playlistId).toBe(resolver.resolve(input, now).playlistId);
+      }
+      expect(new Date(segments[1].end).toISOString()).toBe('2024-03-31T01:00:00.000Z');
+    });
+  });
+
+  describe('days_of_week', () => {
+    it('should treat missing days_of_week as every day', () => {
+      const entry = schedule({ days_of_week: undefined });
+
+      expect(new ScheduleResolver(at('2024-01-06', '10:00:00')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-07', '10:00:00')).isEntryActive(entry)).toBeTrue();
+    });
+
+    it('should treat an empty days_of_week list as every day', () => {
+      const entry = schedule({ days_of_week: [] });
+
+      expect(new ScheduleResolver(at('2024-01-03', '10:00:00')).isEntryActive(entry)).toBeTrue();
+    });
+
+    it('should match day names case-insensitively and abbreviated', () => {
+      const entry = schedule({ days_of_week: ['mon', 'WEDNESDAY'] });
+
+      expect(new ScheduleResolver(at('2024-01-01', '10:00:00')).isEntryActive(entry)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-02', '10:00:00')).isEntryActive(entry)).toBeFalse();
+      expect(new ScheduleResolver(at('2024-01-03', '10:00:00')).isEntryActive(entry)).toBeTrue();
+    });
+  });
+
+  describe('item schedules', () => {
+    const breakfast: PlaylistItemSchedule = { enabled: true, startTime: '06:00', endTime: '11:00', priority: 1 };
+
+    it('should always play items without an enabled schedule', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '23:30:00'));
+
+      expect(resolver.isItemActive(undefined)).toBeTrue();
+      expect(resolver.isItemActive({ ...breakfast, enabled: false })).toBeTrue();
+    });
+
+    it('should only play an item within its time window', () => {
+      expect(new ScheduleResolver(at('2024-01-01', '10:59:00')).isItemActive(breakfast)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-01', '11:00:00')).isItemActive(breakfast)).toBeFalse();
+    });
+
+    it('should treat missing times as the whole day and respect days and dates', () => {
+      const weekend: PlaylistItemSchedule = { enabled: true, daysOfWeek: ['Saturday', 'Sunday'], priority: 1 };
+      const january: PlaylistItemSchedule = { enabled: true, startDate: '2024-01-01', endDate: '2024-01-31', priority: 1 };
+
+      // 2024-01-06 is a Saturday
+      expect(new ScheduleResolver(at('2024-01-06', '00:00:00')).isItemActive(weekend)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-01-01', '12:00:00')).isItemActive(weekend)).toBeFalse();
+      expect(new ScheduleResolver(at('2024-01-31', '23:59:00')).isItemActive(january)).toBeTrue();
+      expect(new ScheduleResolver(at('2024-02-01', '00:00:00')).isItemActive(january)).toBeFalse();
+    });
+
+  });
+
+  describe('fallbacks', () => {
+    it('should fall back to the screen playlist, then the area playlist', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '20:00:00'));
+      const screenSchedules = [schedule({ playlist_id: 'daytime' })];
+
+      const withDefault = resolver.resolve({ screenSchedules, defaultPlaylistId: 'default', areaPlaylistId: 'area' });
+      expect(withDefault.playlistId).toBe('default');
+      expect(withDefault.reason).toBe('default');
+
+      const withArea = resolver.resolve({ screenSchedules, areaPlaylistId: 'area' });
+      expect(withArea.playlistId).toBe('area');
+      expect(withArea.reason).toBe('area');
+
+      const none = resolver.resolve({ screenSchedules });
+      expect(none.playlistId).toBeNull();
+      expect(none.reason).toBe('none');
+    });
+
+    it('should fall back to the first tag playlist that is within its campaign', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '20:00:00'));
+      const tagPlaylistIds = ['ended', 'menu'];
+      const playlistDateRanges = { ended: { endDate: '2023-12-31' } };
+
+      const withArea = resolver.resolve({ areaPlaylistId: 'area', tagPlaylistIds, playlistDateRanges });
+      expect(withArea.playlistId).toBe('area');
+
+      const withTags = resolver.resolve({ tagPlaylistIds, playlistDateRanges });
+      expect(withTags.playlistId).toBe('menu');
+      expect(withTags.reason).toBe('tag');
+    });
+
+    it('should ignore entries with invalid times', () => {
+      const resolver = new ScheduleResolver(at('2024-01-01', '10:00:00'));
+      const result = resolver.resolve({
+        screenSchedules: [schedule({ playlist_id: 'broken', start_time: 'nine' })],
+        defaultPlaylistId: 'default'
+      });
+
+      expect(result.playlistId).toBe('default');
+    });
+  });
+});
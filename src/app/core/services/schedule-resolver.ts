@@ -0,0 +1,466 @@
+// schedule-resolver.ts
+import { PlaylistScheduleBase } from '../models/screen.model';
+import { PlaylistItemSchedule } from '../models/playlist.model';
+import { getTimeZoneOffset, toZonedDate } from './zoned-time';
+
+export type Clock = () => Date;
+
+// Where a schedule entry came from, in order of precedence on priority ties
+export type ScheduleSource = 'screen' | 'area' | 'tag' | 'item';
+
+export interface ScheduleEntry extends PlaylistScheduleBase {
+  source: ScheduleSource;
+}
+
+export interface ScheduleResolverInput {
+  screenSchedules?: PlaylistScheduleBase[] | null;
+  areaSchedules?: PlaylistScheduleBase[] | null;
+  tagSchedules?: PlaylistScheduleBase[] | null; // Tag assignments matching the screen's tags
+  itemSchedules?: PlaylistScheduleBase[] | null;
+  defaultPlaylistId?: string | null; // screens.current_playlist
+  areaPlaylistId?: string | null; // area_screens.current_playlist
+  tagPlaylistIds?: string[] | null; // Unscheduled tag assignments matching the screen, best first
+  playlistDateRanges?: Record<string, PlaylistDateRange>; // PlaylistSettings.scheduling campaigns
+}
+
+// Campaign dates of a playlist, either YYYY-MM-DD (inclusive) or full ISO timestamps
+export interface PlaylistDateRange {
+  startDate?: string | null;
+  endDate?: string | null;
+}
+
+export interface ScheduleResolution {
+  playlistId: string | null;
+  reason: 'schedule' | 'default' | 'area' | 'tag' | 'none';
+  description: string;
+  schedule: ScheduleEntry | null;
+}
+
+// A stretch of time during which the resolution does not change
+export interface ScheduleTimelineSegment {
+  start: string; // ISO timestamp, inclusive
+  end: string; // ISO timestamp, exclusive
+  playlistId: string | null;
+  reason: ScheduleResolution['reason'];
+  description: string;
+}
+
+// Precomputed schedule as stored for offline use
+export interface ScheduleTimeline {
+  id: string;
+  generatedAt: string;
+  validUntil: string;
+  timeZone: string | null;
+  segments: ScheduleTimelineSegment[];
+}
+
+const SOURCE_ORDER: ScheduleSource[] = ['screen', 'area', 'tag', 'item'];
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const END_OF_DAY = 24 * 60;
+const MINUTE = 60 * 1000;
+
+/**
+ * Parse "HH:MM" or "HH:MM:SS" into minutes since midnight
+ */
+export function parseTimeToMinutes(value: string | null | undefined): number | null {
+  if (!value || typeof value !== 'string') {
+    return null;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check a moment against a date range. Plain dates are whole days (in the
+ * given time zone) and the end date is inclusive, timestamps are compared exactly.
+ */
+export function isWithinDateRange(
+  now: Date,
+  startDate?: string | null,
+  endDate?: string | null,
+  timeZone?: string | null
+): boolean {
+  const today = toDateKey(toZonedDate(now, timeZone));
+
+  if (startDate) {
+    const isDateOnly = startDate.length <= 10;
+    if (isDateOnly ? today < startDate : now.getTime() < new Date(startDate).getTime()) {
+      return false;
+    }
+  }
+
+  if (endDate) {
+    const isDateOnly = endDate.length <= 10;
+    if (isDateOnly ? today > endDate : now.getTime() >= new Date(endDate).getTime()) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the timeline segment that covers a moment
+ */
+export function findTimelineSegment(
+  segments: ScheduleTimelineSegment[] | null | undefined,
+  now: Date
+): ScheduleTimelineSegment | null {
+  const time = now.getTime();
+  return (segments || []).find(segment =>
+    new Date(segment.start).getTime() <= time && time < new Date(segment.end).getTime()
+  ) || null;
+}
+
+/**
+ * Normalise a day name ("Monday", "monday", "Mon") to a three letter key
+ */
+export function normalizeDay(day: string): string {
+  return (day || '').trim().slice(0, 3).toLowerCase();
+}
+
+/**
+ * Pure schedule resolution shared by the player, the schedule checks and the
+ * playlist item schedules. Given the same input and clock it always picks the
+ * same playlist.
+ *
+ * Rules:
+ * - A window is active from start_time (inclusive) to end_time (exclusive);
+ *   an end_time of 23:59 or 24:00 runs until midnight.
+ * - A window whose end_time is not after its start_time crosses midnight
+ *   (22:00-02:00). Its days_of_week apply to the day the window started.
+ * - Missing or empty days_of_week means every day.
+ * - start_date/end_date limit an entry to a date range, blackout_dates skip
+ *   single days. Both are checked against the day the window started.
+ * - An entry with a date is a one-off exception (holiday) for that day only.
+ *   Active exceptions win over recurring entries regardless of priority.
+ * - Playlists outside their campaign dates (playlistDateRanges) are never
+ *   chosen, neither by a schedule nor as a fallback.
+ * - Lower priority numbers win. Ties go to the screen schedule, then the area
+ *   schedule, then tag schedules, then playlist item schedules, then the
+ *   earliest start_time.
+ * - Without an active schedule the screen's current playlist is used, then the
+ *   area playlist, then the first playlist assigned to the screen's tags.
+ * - Times, days and dates are evaluated in the screen's time zone (IANA name),
+ *   or the device time zone when none is set.
+ */
+export class ScheduleResolver {
+  constructor(
+    private clock: Clock = () => new Date(),
+    private timeZone: string | null = null
+  ) {}
+
+  resolve(input: ScheduleResolverInput, now: Date = this.clock()): ScheduleResolution {
+    const active = this.getActiveEntries(input, now);
+    const inCampaign = (playlistId: string | null | undefined): boolean =>
+      !!playlistId && this.isPlaylistInDateRange(playlistId, input.playlistDateRanges, now);
+
+    if (active.length > 0) {
+      const winner = active[0];
+      return {
+        playlistId: winner.playlist_id,
+        reason: 'schedule',
+        description: `${winner.date ? `${winner.source} exception for ${winner.date}` : `${winner.source} schedule`} ` +
+          `${winner.start_time}-${winner.end_time} (priority ${winner.priority})`,
+        schedule: winner
+      };
+    }
+
+    if (inCampaign(input.defaultPlaylistId)) {
+      return {
+        playlistId: input.defaultPlaylistId!,
+        reason: 'default',
+        description: 'No active schedule, using the screen playlist',
+        schedule: null
+      };
+    }
+
+    if (inCampaign(input.areaPlaylistId)) {
+      return {
+        playlistId: input.areaPlaylistId!,
+        reason: 'area',
+        description: 'No active schedule, using the area playlist',
+        schedule: null
+      };
+    }
+
+    const tagPlaylistId = (input.tagPlaylistIds || []).find(playlistId => inCampaign(playlistId));
+    if (tagPlaylistId) {
+      return {
+        playlistId: tagPlaylistId,
+        reason: 'tag',
+        description: 'No active schedule, using the playlist assigned to the screen tags',
+        schedule: null
+      };
+    }
+
+    return {
+      playlistId: null,
+      reason: 'none',
+      description: 'No schedule or playlist assigned',
+      schedule: null
+    };
+  }
+
+  /**
+   * Resolve the schedule from a start time onwards and merge stretches with the
+   * same result into segments, so the schedule can be followed without a
+   * connection. The result can only change at a window start or end, at
+   * midnight, at a campaign timestamp or when the clock changes for daylight
+   * saving, so it is resolved once per boundary instead of once per minute.
+   */
+  buildTimeline(input: ScheduleResolverInput, from: Date = this.clock(), days = 7): ScheduleTimelineSegment[] {
+    const segments: ScheduleTimelineSegment[] = [];
+    const start = Math.floor(from.getTime() / MINUTE) * MINUTE;
+    const end = start + days * END_OF_DAY * MINUTE;
+    const boundaryMinutes = this.collectBoundaryMinutes(input);
+    const boundaryInstants = this.collectBoundaryInstants(input);
+
+    for (let time = start; time < end;) {
+      const next = Math.min(this.nextBoundary(time, boundaryMinutes, boundaryInstants), end);
+      const resolution = this.resolve(input, new Date(time));
+      const last = segments[segments.length - 1];
+
+      if (last && last.playlistId === resolution.playlistId && last.description === resolution.description) {
+        last.end = new Date(next).toISOString();
+      } else {
+        segments.push({
+          start: new Date(time).toISOString(),
+          end: new Date(next).toISOString(),
+          playlistId: resolution.playlistId,
+          reason: resolution.reason,
+          description: resolution.description
+        });
+      }
+
+      time = next;
+    }
+
+    return segments;
+  }
+
+  /**
+   * All entries active at the given time, best match first
+   */
+  getActiveEntries(input: ScheduleResolverInput, now: Date = this.clock()): ScheduleEntry[] {
+    const local = toZonedDate(now, this.timeZone);
+    return this.collectEntries(input)
+      .filter(entry => this.isActiveAt(entry, local))
+      .filter(entry => this.isPlaylistInDateRange(entry.playlist_id, input.playlistDateRanges, now))
+      .sort((a, b) => this.compareEntries(a, b));
+  }
+
+  /**
+   * Check whether a single schedule window is active at the given time
+   */
+  isEntryActive(entry: PlaylistScheduleBase, now: Date = this.clock()): boolean {
+    return this.isActiveAt(entry, toZonedDate(now, this.timeZone));
+  }
+
+  /**
+   * Check the validity window of a single playlist item. Items without an enabled
+   * schedule always play, and missing times mean the whole day.
+   */
+  isItemActive(schedule: PlaylistItemSchedule | null | undefined, now: Date = this.clock()): boolean {
+    if (!schedule?.enabled) {
+      return true;
+    }
+
+    return this.isEntryActive({
+      playlist_id: '',
+      start_time: schedule.startTime || '00:00',
+      end_time: schedule.endTime || '24:00',
+      priority: schedule.priority ?? 1,
+      days_of_week: schedule.daysOfWeek,
+      start_date: schedule.startDate,
+      end_date: schedule.endDate
+    }, now);
+  }
+
+  /**
+   * Check a schedule window against the wall clock time at the screen
+   */
+  private isActiveAt(entry: PlaylistScheduleBase, local: Date): boolean {
+    const start = parseTimeToMinutes(entry.start_time);
+    let end = parseTimeToMinutes(entry.end_time);
+    if (start === null || end === null) {
+      return false;
+    }
+
+    // 23:59 is how "until the end of the day" is usually entered
+    if (end === END_OF_DAY - 1 && start < end) {
+      end = END_OF_DAY;
+    }
+
+    const minutes = local.getHours() * 60 + local.getMinutes();
+    const yesterday = new Date(local.getFullYear(), local.getMonth(), local.getDate() - 1);
+
+    if (end > start) {
+      return minutes >= start && minutes < end && this.isActiveOn(entry, local);
+    }
+
+    // Overnight window: the evening part started today, the early morning part yesterday
+    if (minutes >= start) {
+      return this.isActiveOn(entry, local);
+    }
+    if (minutes < end) {
+      return this.isActiveOn(entry, yesterday);
+    }
+    return false;
+  }
+
+  /**
+   * Check the day and date rules of an entry for the day its window started
+   */
+  private isActiveOn(entry: PlaylistScheduleBase, day: Date): boolean {
+    const dateKey = toDateKey(day);
+
+    if (entry.blackout_dates?.some(date => date.slice(0, 10) === dateKey)) {
+      return false;
+    }
+
+    // One-off entries ignore days_of_week and the date range
+    if (entry.date) {
+      return entry.date.slice(0, 10) === dateKey;
+    }
+
+    if (entry.start_date && dateKey < entry.start_date.slice(0, 10)) {
+      return false;
+    }
+    if (entry.end_date && dateKey > entry.end_date.slice(0, 10)) {
+      return false;
+    }
+
+    return this.isActiveDay(entry.days_of_week, day.getDay());
+  }
+
+  private isActiveDay(days: string[] | undefined, dayIndex: number): boolean {
+    if (!days || days.length === 0) {
+      return true;
+    }
+
+    const dayKey = DAY_KEYS[dayIndex];
+    return days.some(day => normalizeDay(day) === dayKey);
+  }
+
+  private isPlaylistInDateRange(
+    playlistId: string,
+    ranges: Record<string, PlaylistDateRange> | undefined,
+    now: Date
+  ): boolean {
+    const range = ranges?.[playlistId];
+    return !range || isWithinDateRange(now, range.startDate, range.endDate, this.timeZone);
+  }
+
+  /**
+   * The first moment after the given time at which the resolution may change
+   */
+  private nextBoundary(time: number, boundaryMinutes: number[], boundaryInstants: number[]): number {
+    const local = toZonedDate(new Date(time), this.timeZone);
+    const minutes = local.getHours() * 60 + local.getMinutes();
+    const nextMinutes = boundaryMinutes.find(value => value > minutes) ?? END_OF_DAY;
+    let next = time + (nextMinutes - minutes) * MINUTE - local.getSeconds() * 1000 - local.getMilliseconds();
+
+    // The wall clock jumps on a daylight saving change: stop at the change itself
+    const offset = getTimeZoneOffset(new Date(time), this.timeZone);
+    if (getTimeZoneOffset(new Date(next), this.timeZone) !== offset) {
+      let before = time;
+      while (next - before > MINUTE) {
+        const middle = Math.floor((before + next) / 2 / MINUTE) * MINUTE;
+        if (middle <= before) {
+          break;
+        }
+        if (getTimeZoneOffset(new Date(middle), this.timeZone) === offset) {
+          before = middle;
+        } else {
+          next = middle;
+        }
+      }
+    }
+
+    const instant = boundaryInstants.find(value => value > time);
+    return Math.max(time + MINUTE, instant !== undefined ? Math.min(next, instant) : next);
+  }
+
+  /**
+   * Wall clock minutes at which a schedule window starts or ends
+   */
+  private collectBoundaryMinutes(input: ScheduleResolverInput): number[] {
+    const minutes = this.collectEntries(input)
+      .flatMap(entry => [parseTimeToMinutes(entry.start_time), parseTimeToMinutes(entry.end_time)])
+      .filter((value): value is number => value !== null && value > 0 && value < END_OF_DAY);
+
+    return [...new Set(minutes)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Campaign start and end timestamps; plain campaign dates change at midnight
+   */
+  private collectBoundaryInstants(input: ScheduleResolverInput): number[] {
+    const instants = Object.values(input.playlistDateRanges || {})
+      .flatMap(range => [range.startDate, range.endDate])
+      .filter((value): value is string => !!value && value.length > 10)
+      .map(value => new Date(value).getTime())
+      .filter(value => !isNaN(value));
+
+    return [...new Set(instants)].sort((a, b) => a - b);
+  }
+
+  private collectEntries(input: ScheduleResolverInput): ScheduleEntry[] {
+    const tag = (schedules: PlaylistScheduleBase[] | null | undefined, source: ScheduleSource): ScheduleEntry[] =>
+      (schedules || [])
+        .filter(schedule => !!schedule && !!schedule.playlist_id)
+        .map(schedule => ({ ...schedule, source }));
+
+    return [
+      ...tag(input.screenSchedules, 'screen'),
+      ...tag(input.areaSchedules, 'area'),
+      ...tag(input.tagSchedules, 'tag'),
+      ...tag(input.itemSchedules, 'item')
+    ];
+  }
+
+  private compareEntries(a: ScheduleEntry, b: ScheduleEntry): number {
+    if (!!a.date !== !!b.date) {
+      return a.date ? -1 : 1;
+    }
+
+    const priorityA = Number.isFinite(a.priority) ? a.priority : Number.MAX_SAFE_INTEGER;
+    const priorityB = Number.isFinite(b.priority) ? b.priority : Number.MAX_SAFE_INTEGER;
+    if (priorityA !== priorityB) {
+      return priorityA - priorityB;
+    }
+
+    const sourceDiff = SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source);
+    if (sourceDiff !== 0) {
+      return sourceDiff;
+    }
+
+    const startDiff = (parseTimeToMinutes(a.start_time) ?? 0) - (parseTimeToMinutes(b.start_time) ?? 0);
+    if (startDiff !== 0) {
+      return startDiff;
+    }
+
+    return a.playlist_id.localeCompare(b.playlist_id);
+  }
+}
@@ -1,19 +1,23 @@
 // schedule.service.ts
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, of, from, Subject } from 'rxjs';
+import { Observable, of, forkJoin, Subject } from 'rxjs';
 import { catchError, map, switchMap } from 'rxjs/operators';
 import { LogService } from './log.service';
 import { SupabaseApiService } from './supabase-api.service';
+import { TimeZoneService } from './time-zone.service';
+import { ContentSyncService, DownloadPriority } from './content-sync.service';
+import { PowerScheduleService } from './power-schedule.service';
 import { supabase } from './supabase.config';
-
-interface ScheduleItem {
-  playlist_id: string;
-  start_time: string;
-  end_time: string;
-  priority: number;
-  days_of_week: string[];
-}
+import {
+  PlaylistDateRange,
+  ScheduleResolution,
+  ScheduleResolver,
+  ScheduleResolverInput,
+  findTimelineSegment
+} from './schedule-resolver';
+import { matchesTagExpression, parseTagExpression } from './tag-expression';
+import { PlaylistScheduleBase, TagAssignment } from '../models/screen.model';
 
 @Injectable({
   providedIn: 'root'
@@ -22,6 +26,14 @@ export class ScheduleService {
   private deviceId: string | null = null;
   private currentPlaylistId: string | null = null;
   
+  // Precomputed schedule for offline use
+  private readonly TIMELINE_DAYS = 7;
+  private readonly TIMELINE_REFRESH_MS = 60 * 60 * 1000; // Roll the window forward every hour
+  private readonly PRECACHE_SOON_MS = 6 * 60 * 60 * 1000; // Playlists starting this soon don't wait for quiet hours
+  private timelineKey: string | null = null;
+  private timelineBuiltAt = 0;
+  private precachedPlaylists = new Map<string, DownloadPriority>();
+  
   // Add a Subject to emit schedule change events
   private scheduleChangeSubject = new Subject<string>();
   public scheduleChange$ = this.scheduleChangeSubject.asObservable();
@@ -29,7 +41,10 @@ export class ScheduleService {
   constructor(
     private http: HttpClient,
     private supabaseApi: SupabaseApiService,
-    private logService: LogService
+    private logService: LogService,
+    private timeZoneService: TimeZoneService,
+    private contentSyncService: ContentSyncService,
+    private powerScheduleService: PowerScheduleService
   ) {
     // Get device ID from local storage
     this.deviceId = localStorage.getItem('deviceId');
@@ -38,6 +53,112 @@ export class ScheduleService {
     }
   }
 
+  /**
+   * Record which playlist is actually playing, so the next check only reports real changes
+   */
+  setCurrentPlaylistId(playlistId: string | null): void {
+    this.currentPlaylistId = playlistId;
+  }
+
+  /**
+   * Resolve which playlist should be playing right now from the screen, area,
+   * tag and playlist item schedules. Without a connection the cached timeline is used.
+   */
+  resolveActivePlaylist(): Observable<ScheduleResolution> {
+    if (!this.deviceId) {
+      this.logService.error('Cannot resolve schedule: No device ID');
+      return of(this.unresolved('No device ID'));
+    }
+
+    // Follow the cached timeline while offline instead of waiting for requests to fail
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      return this.resolveFromTimeline('Offline');
+    }
+
+    return forkJoin({
+      screen: this.supabaseApi.getScreenById(this.deviceId),
+      area: this.supabaseApi.getScreenArea(this.deviceId),
+      tagAssignments: this.supabaseApi.getTagAssignments()
+    }).pipe(
+      switchMap(({ screen, area, tagAssignments }) =>
+        this.getItemSchedules(area?.area_id || null).pipe(
+          map(itemSchedules => ({
+            screen,
+            area,
+            itemSchedules,
+            tagAssignments: this.matchTagAssignments(tagAssignments, screen?.tags)
+          }))
+        )
+      ),
+      switchMap(context => {
+        // Campaign dates live in the settings of every playlist that could be chosen
+        const playlistIds = new Set<string>([
+          ...(context.screen?.schedule?.upcoming || []).map(schedule => schedule.playlist_id),
+          ...(context.area?.schedule?.upcoming || []).map((schedule: PlaylistScheduleBase) => schedule.playlist_id),
+          ...context.tagAssignments.map(assignment => assignment.playlist_id),
+          ...context.itemSchedules.map(schedule => schedule.playlist_id)
+        ]);
+        if (context.screen?.current_playlist) playlistIds.add(context.screen.current_playlist);
+        if (context.area?.current_playlist) playlistIds.add(context.area.current_playlist);
+
+        return this.getPlaylistDateRanges([...playlistIds].filter(Boolean)).pipe(
+          map(playlistDateRanges => ({ ...context, playlistDateRanges }))
+        );
+      }),
+      switchMap(({ screen, area, itemSchedules, tagAssignments, playlistDateRanges }) => {
+        if (!screen) {
+          this.logService.warn('Screen not found when resolving schedule, trying the cached timeline');
+          return this.resolveFromTimeline('Screen not found');
+        }
+
+        // Schedules are entered in the local time of the screen
+        if (this.timeZoneService.setTimeZone(screen.settings?.timezone)) {
+          this.logService.info(`Screen time zone set to ${this.timeZoneService.timeZone || 'device default'}`);
+        }
+        this.powerScheduleService.setPowerSchedule(screen.settings?.power_schedule);
+
+        const now = this.timeZoneService.now();
+        const currentTimeExact = now.toTimeString().slice(0, 8); // Format: "HH:MM:SS"
+        const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' });
+        this.logService.debug(`Resolving schedule at exact time: ${currentTimeExact}, day: ${currentDay}`);
+
+        this.logService.debug(`Screen data: ${JSON.stringify({
+          id: screen.id,
+          current_playlist: screen.current_playlist,
+          schedule_count: screen.schedule?.upcoming?.length || 0,
+          area_schedule_count: area?.schedule?.upcoming?.length || 0,
+          tag_assignment_count: tagAssignments.length,
+          item_schedule_count: itemSchedules.length
+        })}`);
+
+        const input: ScheduleResolverInput = {
+          screenSchedules: screen.schedule?.upcoming,
+          areaSchedules: area?.schedule?.upcoming,
+          tagSchedules: tagAssignments
+            .filter(assignment => assignment.start_time && assignment.end_time)
+            .map(assignment => this.toSchedule(assignment)),
+          itemSchedules,
+          defaultPlaylistId: screen.current_playlist,
+          areaPlaylistId: area?.current_playlist || null,
+          tagPlaylistIds: tagAssignments
+            .filter(assignment => !assignment.start_time && !assignment.end_time)
+            .map(assignment => assignment.playlist_id),
+          playlistDateRanges
+        };
+        const resolver = new ScheduleResolver(() => new Date(), this.timeZoneService.timeZone);
+        const resolution = resolver.resolve(input);
+
+        this.logService.debug(`Schedule resolved to ${resolution.playlistId || 'none'}: ${resolution.description}`);
+        this.refreshTimeline(resolver, input);
+        return of(resolution);
+      }),
+      catchError(error => {
+        this.logService.error(`Error resolving schedule: ${error.message}`);
+        return this.resolveFromTimeline(`Error: ${error.message}`);
+      })
+    );
+  }
+
   /**
    * Check if the schedule has changed and a different playlist should be playing
    * @returns Observable<boolean> - True if the playlist has changed, false otherwise
@@ -48,115 +169,37 @@ export class ScheduleService {
       return of(false);
     }
 
-    // Get the exact time including seconds for more precise logging
-    const now = new Date();
-    const currentTimeExact = now.toTimeString().slice(0, 8); // Format: "HH:MM:SS"
-    const currentHours = now.getHours().toString().padStart(2, '0');
-    const currentMinutes = now.getMinutes().toString().padStart(2, '0');
-    const currentTime = `${currentHours}:${currentMinutes}`; // Format: "HH:MM" for comparison
-    const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' });
-    
-    this.logService.debug(`Checking schedule at exact time: ${currentTimeExact}, day: ${currentDay}`);
+    return this.resolveActivePlaylist().pipe(
+      map(resolution => {
+        const newPlaylistId = resolution.playlistId;
 
-    return this.supabaseApi.getScreenById(this.deviceId).pipe(
-      map(screen => {
-        if (!screen) {
-          this.logService.warn('Screen not found when checking schedule');
+        if (!newPlaylistId) {
+          this.logService.debug(`No playlist resolved: ${resolution.description}`);
           return false;
         }
-        
-        // Debug logging with more details
-        this.logService.debug(`Screen data: ${JSON.stringify({
-          id: screen.id,
-          current_playlist: screen.current_playlist,
-          has_schedule: !!screen.schedule?.upcoming?.length,
-          schedule_count: screen.schedule?.upcoming?.length || 0
-        })}`);
 
-        // If no schedules, nothing to check
-        if (!screen.schedule?.upcoming?.length) {
-          this.logService.debug('No upcoming schedules found');
+        if (newPlaylistId === this.currentPlaylistId) {
+          this.logService.debug(`Current playlist ${this.currentPlaylistId} matches schedule, no change needed`);
           return false;
         }
 
-        // Find active schedule
-        let highestPrioritySchedule = null;
-        let highestPriority = Number.MAX_SAFE_INTEGER;
-
-        // Log all schedules for debugging
-        screen.schedule.upcoming.forEach((schedule, index) => {
-          // Add seconds to the start_time and end_time for more exact comparison
-          const startTime = schedule.start_time;
-          const endTime = schedule.end_time;
-          
-          this.logService.debug(`Schedule ${index}: playlist=${schedule.playlist_id}, time=${startTime}-${endTime}, priority=${schedule.priority}`);
-        });
+        this.logService.info(
+          `Schedule change detected at ${this.timeZoneService.formatTime()}! ` +
+          `Changing playlist from ${this.currentPlaylistId || 'none'} to ${newPlaylistId} ` +
+          `(${resolution.description})`
+        );
 
-        // Check each schedule - make sure to cast to the correct interface
-        for (const schedule of screen.schedule.upcoming as unknown as ScheduleItem[]) {
-          // Safely access days_of_week with a fallback
-          const days = schedule.days_of_week || 
-                      ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-          
-          const isActiveDay = days.includes(currentDay);
-          
-          // Use >= and <= for time comparison to match exactly at boundaries
-          const isActiveTime = currentTime >= schedule.start_time && currentTime <= schedule.end_time;
-          
-          // Add more detailed logging about the exact times being compared
-          this.logService.debug(
-            `Schedule check details: playlist=${schedule.playlist_id}, ` +
-            `activeDay=${isActiveDay}, activeTime=${isActiveTime}, ` +
-            `comparing current=${currentTime} with start=${schedule.start_time}, end=${schedule.end_time}`
-          );
-          
-          if (isActiveDay && isActiveTime && schedule.priority < highestPriority) {
-            highestPrioritySchedule = schedule;
-            highestPriority = schedule.priority;
-            this.logService.debug(`Found higher priority schedule: ${schedule.playlist_id} (priority ${schedule.priority})`);
-          }
-        }
+        this.currentPlaylistId = newPlaylistId;
 
-        if (highestPrioritySchedule) {
-          const newPlaylistId = highestPrioritySchedule.playlist_id;
-          
-          // Track whether transition is exactly at schedule boundary
-          const isExactTransition = 
-            currentTime === highestPrioritySchedule.start_time ||
-            currentTime === highestPrioritySchedule.end_time;
-          
-          // Check if this is different from current
-          if (newPlaylistId !== this.currentPlaylistId) {
-            this.logService.info(
-              `Schedule change detected at ${currentTimeExact}! ` +
-              `Changing playlist from ${this.currentPlaylistId || 'none'} to ${newPlaylistId} ` +
-              `(exact transition: ${isExactTransition})`
-            );
-            
-            this.currentPlaylistId = newPlaylistId;
-            
-            // Update the screen record with the new playlist
-            this.updateCurrentPlaylist(newPlaylistId);
-            
-            // Emit the change event with the new playlist ID
-            this.scheduleChangeSubject.next(newPlaylistId);
-            
-            return true;
-          } else {
-            this.logService.debug(`Current playlist ${this.currentPlaylistId} matches schedule, no change needed`);
-          }
-        } else if (screen.current_playlist && this.currentPlaylistId !== screen.current_playlist) {
-          // No active schedule, revert to default playlist if different
-          this.logService.info(`No active schedule, changing to default playlist: ${screen.current_playlist}`);
-          this.currentPlaylistId = screen.current_playlist;
-          
-          // Emit the change event for the default playlist
-          this.scheduleChangeSubject.next(screen.current_playlist);
-          
-          return true;
+        // Only scheduled playlists are written back to the screen record
+        if (resolution.reason === 'schedule') {
+          this.updateCurrentPlaylist(newPlaylistId);
         }
-        
-        return false;
+
+        // Emit the change event with the new playlist ID
+        this.scheduleChangeSubject.next(newPlaylistId);
+
+        return true;
       }),
       catchError(error => {
         this.logService.error(`Error checking schedule: ${error.message}`);
@@ -166,139 +209,171 @@ export class ScheduleService {
   }
 
   /**
-   * Check playlist items for scheduling
+   * Keep the tag assignments whose expression matches the screen's tags, best priority first
    */
-  private checkPlaylistItemSchedules(): Observable<boolean> {
-    return this.getAreaId().pipe(
-      switchMap(areaId => {
-        if (!areaId) {
-          return of(false);
+  private matchTagAssignments(assignments: TagAssignment[], tags: string[] | null | undefined): TagAssignment[] {
+    return assignments
+      .filter(assignment => {
+        try {
+          parseTagExpression(assignment.tag_expression);
+        } catch (error: any) {
+          this.logService.warn(`Ignoring tag assignment ${assignment.id}: ${error.message}`);
+          return false;
         }
+        return matchesTagExpression(assignment.tag_expression, tags);
+      })
+      .sort((a, b) => (a.priority ?? Number.MAX_SAFE_INTEGER) - (b.priority ?? Number.MAX_SAFE_INTEGER));
+  }
 
-        // Get all playlists for this area
-        return this.supabaseApi.getAreaPlaylists(areaId).pipe(
-          switchMap(playlists => {
-            if (!playlists || playlists.length === 0) {
-              return of(false);
-            }
-
-            // Get the current time and day
-            const now = new Date();
-            const currentHours = now.getHours().toString().padStart(2, '0');
-            const currentMinutes = now.getMinutes().toString().padStart(2, '0');
-            const currentTime = `${currentHours}:${currentMinutes}`;
-            const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' });
-            
-            // Check scheduled items from playlist_items table
-            return this.http.get<any[]>(`${this.supabaseApi.apiUrl}/playlist_items`, {
-              params: {
-                select: 'playlist_id,schedule_enabled,schedule_start_time,schedule_end_time,schedule_days,schedule_priority',
-                playlist_id: `in.(${playlists.map(p => p.id).join(',')})`,
-                schedule_enabled: 'eq.true',
-                schedule_start_time: `lte.${currentTime}`,
-                schedule_end_time: `gte.${currentTime}`,
-                order: 'schedule_priority.asc'
-              },
-              headers: {
-                'apikey': this.supabaseApi.supabaseKey,
-                'Authorization': `Bearer ${this.supabaseApi.supabaseKey}`
-              }
-            }).pipe(
-              map(data => {
-                // Filter items for the current day
-                const scheduledItems = data.filter((item: any) => 
-                  item.schedule_days && item.schedule_days.includes(currentDay)
-                );
-                
-                if (scheduledItems.length > 0) {
-                  // Get the highest priority item (lowest priority number)
-                  const bestMatch = scheduledItems[0];
-                  
-                  if (bestMatch.playlist_id !== this.currentPlaylistId) {
-                    this.currentPlaylistId = bestMatch.playlist_id;
-                    this.updateCurrentPlaylist(bestMatch.playlist_id);
-                    
-                    // Emit the change event
-                    this.scheduleChangeSubject.next(bestMatch.playlist_id);
-                    
-                    return true;
-                  }
-                }
-                
-                return false;
-              }),
-              catchError(error => {
-                this.logService.error(`Error checking playlist item schedules: ${error.message}`);
-                return of(false);
-              })
-            );
-          }),
-          catchError(error => {
-            this.logService.error(`Error getting area playlists: ${error.message}`);
-            return of(false);
-          })
-        );
+  private toSchedule(assignment: TagAssignment): PlaylistScheduleBase {
+    const { id, tag_expression, ...schedule } = assignment;
+    return { ...schedule, start_time: assignment.start_time!, end_time: assignment.end_time! };
+  }
+
+  /**
+   * Get the scheduled playlist items of all playlists in this screen's area
+   */
+  private getItemSchedules(areaId: string | null): Observable<PlaylistScheduleBase[]> {
+    if (!areaId) {
+      return of([]);
+    }
+
+    return this.supabaseApi.getAreaPlaylists(areaId).pipe(
+      switchMap(playlists => {
+        if (!playlists || playlists.length === 0) {
+          return of([]);
+        }
+
+        return this.http.get<any[]>(`${this.supabaseApi.apiUrl}/playlist_items`, {
+          params: {
+            select: 'playlist_id,schedule_enabled,schedule_start_time,schedule_end_time,schedule_days,schedule_priority',
+            playlist_id: `in.(${playlists.map(p => p.id).join(',')})`,
+            schedule_enabled: 'eq.true',
+            order: 'schedule_priority.asc'
+          },
+          headers: {
+            'apikey': this.supabaseApi.supabaseKey,
+            'Authorization': `Bearer ${this.supabaseApi.supabaseKey}`
+          }
+        });
       }),
+      map(rows => rows.map(row => ({
+        playlist_id: row.playlist_id,
+        start_time: row.schedule_start_time,
+        end_time: row.schedule_end_time,
+        priority: row.schedule_priority ?? 1,
+        days_of_week: row.schedule_days || []
+      }))),
       catchError(error => {
-        this.logService.error(`Error in checkPlaylistItemSchedules: ${error.message}`);
-        return of(false);
+        this.logService.error(`Error checking playlist item schedules: ${error.message}`);
+        return of([]);
       })
     );
   }
 
   /**
-   * Get the area ID for this screen
+   * Get the campaign date ranges of playlists that have scheduling enabled
    */
-  private getAreaId(): Observable<string | null> {
-    return this.supabaseApi.getScreenArea(this.deviceId!).pipe(
-      map(area => area ? area.area_id : null),
+  private getPlaylistDateRanges(playlistIds: string[]): Observable<Record<string, PlaylistDateRange>> {
+    return this.supabaseApi.getPlaylistsByIds(playlistIds).pipe(
+      map(playlists => {
+        const ranges: Record<string, PlaylistDateRange> = {};
+        for (const playlist of playlists) {
+          const scheduling = playlist.settings?.scheduling;
+          if (scheduling?.enabled && (scheduling.startDate || scheduling.endDate)) {
+            ranges[playlist.id] = { startDate: scheduling.startDate, endDate: scheduling.endDate };
+          }
+        }
+        return ranges;
+      }),
       catchError(error => {
-        this.logService.error(`Error getting area ID: ${error.message}`);
-        return of(null);
+        this.logService.error(`Error getting playlist date ranges: ${error.message}`);
+        return of({});
       })
     );
   }
 
   /**
-   * Find the highest priority schedule that matches the current time
+   * Rebuild and cache the timeline for the coming days when the schedule
+   * changed or the cached window needs to move forward
    */
-  private findMatchingSchedule(schedules: ScheduleItem[]): ScheduleItem | null {
-    if (!schedules || !schedules.length) {
-      return null;
+  private refreshTimeline(resolver: ScheduleResolver, input: ScheduleResolverInput): void {
+    const timeZone = this.timeZoneService.timeZone;
+    const key = JSON.stringify({ input, timeZone });
+    const now = Date.now();
+
+    if (key === this.timelineKey && now - this.timelineBuiltAt < this.TIMELINE_REFRESH_MS) {
+      return;
     }
-    
-    const now = new Date();
-    const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' });
-    
-    // Format current time as "HH:MM" for exact string comparison
-    const currentHours = now.getHours().toString().padStart(2, '0');
-    const currentMinutes = now.getMinutes().toString().padStart(2, '0');
-    const currentTime = `${currentHours}:${currentMinutes}`;
-    
-    this.logService.debug(`Finding schedule for time ${currentTime} on ${currentDay}`);
-    
-    // Filter schedules that match the current day and time
-    const matchingSchedules = schedules.filter(schedule => {
-      // Ensure exact formatting for comparison
-      const withinTimeRange = currentTime >= schedule.start_time && currentTime <= schedule.end_time;
-      
-      const isMatch = schedule.days_of_week.includes(currentDay) && withinTimeRange;
-      this.logService.debug(`Schedule ${schedule.playlist_id}: day match=${schedule.days_of_week.includes(currentDay)}, time match=${withinTimeRange} (${currentTime} between ${schedule.start_time}-${schedule.end_time})`);
-      
-      return isMatch;
+
+    this.timelineKey = key;
+    this.timelineBuiltAt = now;
+
+    const from = new Date(now);
+    const segments = resolver.buildTimeline(input, from, this.TIMELINE_DAYS);
+    this.contentSyncService.cacheScheduleTimeline({
+      id: this.deviceId!,
+      generatedAt: from.toISOString(),
+      validUntil: segments.length ? segments[segments.length - 1].end : from.toISOString(),
+      timeZone,
+      segments
+    });
+
+    // Make sure every upcoming playlist can be played without a connection. Those
+    // starting soon are downloaded right away, the rest waits for quiet hours.
+    const priorities = new Map<string, DownloadPriority>();
+    segments.forEach(segment => {
+      if (!segment.playlistId || priorities.get(segment.playlistId) === 'playlist') {
+        return;
+      }
+      const soon = Date.parse(segment.start) - now < this.PRECACHE_SOON_MS;
+      priorities.set(segment.playlistId, soon ? 'playlist' : 'prefetch');
+    });
+
+    this.contentSyncService.setPinnedPlaylists('schedule', [...priorities.keys()]);
+    priorities.forEach((priority, playlistId) => {
+      // Sync again when a pre-cached playlist comes close, to move its downloads up
+      const precached = this.precachedPlaylists.get(playlistId);
+      if (precached === 'playlist' || precached === priority) {
+        return;
+      }
+      this.precachedPlaylists.set(playlistId, priority);
+      this.contentSyncService.syncPlaylist(playlistId, priority).subscribe(result => {
+        if (!result.playlist) {
+          this.precachedPlaylists.delete(playlistId);
+        }
+      });
     });
-    
-    if (!matchingSchedules.length) {
-      return null;
-    }
-    
-    // Sort by priority (lower number = higher priority)
-    matchingSchedules.sort((a, b) => a.priority - b.priority);
-    
-    // Return the highest priority schedule
-    return matchingSchedules[0];
   }
-  
+
+  /**
+   * Resolve the playlist from the cached timeline
+   */
+  private resolveFromTimeline(fallbackDescription: string): Observable<ScheduleResolution> {
+    return this.contentSyncService.getCachedScheduleTimeline(this.deviceId!).pipe(
+      map(timeline => {
+        const segment = findTimelineSegment(timeline?.segments, new Date());
+        if (!segment) {
+          this.logService.warn(`No cached schedule covers the current time (${fallbackDescription})`);
+          return this.unresolved(fallbackDescription);
+        }
+
+        this.logService.debug(`Schedule resolved from cached timeline to ${segment.playlistId || 'none'}: ${segment.description}`);
+        return {
+          playlistId: segment.playlistId,
+          reason: segment.reason,
+          description: `${segment.description} (cached schedule)`,
+          schedule: null
+        };
+      }),
+      catchError(() => of(this.unresolved(fallbackDescription)))
+    );
+  }
+
+  private unresolved(description: string): ScheduleResolution {
+    return { playlistId: null, reason: 'none', description, schedule: null };
+  }
+
   /**
    * Update the current playlist for this screen
    */
@@ -320,7 +395,7 @@ export class ScheduleService {
         analytics: {
           last_schedule_change: updateTime.toISOString(),
           scheduled_playlist: playlistId,
-          exact_change_time: updateTime.toTimeString()
+          exact_change_time: this.timeZoneService.formatTime(updateTime)
         }
       })
       .eq('id', this.deviceId)
@@ -328,7 +403,7 @@ export class ScheduleService {
         if (error) {
           this.logService.error(`Error updating current playlist in screens table: ${error.message}`);
         } else {
-          this.logService.info(`Current playlist updated in screens table to ${playlistId} successfully at ${updateTime.toTimeString()}`);
+          this.logService.info(`Current playlist updated in screens table to ${playlistId} successfully at ${this.timeZoneService.formatTime(updateTime)}`);
         }
       });
   }
@@ -0,0 +1,306 @@
+// screenshot.service.ts
+import { Injectable, OnDestroy } from '@angular/core';
+import { LogService } from './log.service';
+import { PowerScheduleService } from './power-schedule.service';
+import { supabase } from './supabase.config';
+import { environment } from '../../../environments/environment';
+
+export interface ScreenshotResult {
+  path: string; // Object path in the screenshots bucket
+  width: number;
+  height: number;
+  size: number;
+  captured_at: string;
+}
+
+// Clip rectangle and opacity an element inherits from its ancestors
+interface RenderContext {
+  clip: DOMRect;
+  opacity: number;
+}
+
+/**
+ * Captures what the player shows and uploads it as a JPEG to the screenshots
+ * bucket, under a folder per screen. The page can't be screenshotted directly,
+ * so the visible images, video frames, backgrounds and text are drawn onto a
+ * canvas. Iframes and cross-origin media can't be read back and are drawn as
+ * labelled placeholders instead.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ScreenshotService implements OnDestroy {
+  private target: HTMLElement | null = null;
+  private thumbnailInterval: any = null;
+
+  constructor(
+    private logService: LogService,
+    private powerScheduleService: PowerScheduleService
+  ) {}
+
+  /**
+   * Capture this element from now on (the player), and start the periodic thumbnails
+   */
+  attach(element: HTMLElement): void {
+    this.target = element;
+
+    const interval = environment.screenshots.thumbnailInterval;
+    if (interval > 0 && !this.thumbnailInterval) {
+      this.thumbnailInterval = setInterval(() => this.uploadThumbnail(), interval);
+    }
+  }
+
+  detach(element: HTMLElement): void {
+    if (this.target !== element) {
+      return;
+    }
+
+    this.target = null;
+    if (this.thumbnailInterval) {
+      clearInterval(this.thumbnailInterval);
+      this.thumbnailInterval = null;
+    }
+  }
+
+  /**
+   * Capture the screen and upload it. Each capture is kept under its own name.
+   */
+  async captureAndUpload(): Promise<ScreenshotResult> {
+    const capturedAt = new Date().toISOString();
+    const { image, width, height } = await this.capture(environment.screenshots.maxWidth);
+    return this.upload(image, `${capturedAt.replace(/[:.]/g, '-')}.jpg`, width, height, capturedAt);
+  }
+
+  /**
+   * Render the attached element (or the whole page) to a JPEG
+   */
+  async capture(maxWidth: number): Promise<{ image: Blob; width: number; height: number }> {
+    const root = this.target || document.body;
+    const rootRect = root.getBoundingClientRect();
+    const scale = Math.min(1, maxWidth / (rootRect.width || 1));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(rootRect.width * scale));
+    canvas.height = Math.max(1, Math.round(rootRect.height * scale));
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.translate(-rootRect.left, -rootRect.top);
+
+    this.renderElement(context, root, { clip: rootRect, opacity: 1 });
+
+    const image = await new Promise<Blob | null>(resolve =>
+      canvas.toBlob(resolve, 'image/jpeg', environment.screenshots.quality)
+    );
+    if (!image) {
+      throw new Error('Screenshot could not be encoded');
+    }
+
+    return { image, width: canvas.width, height: canvas.height };
+  }
+
+  private async uploadThumbnail(): Promise<void> {
+    if (!navigator.onLine || this.powerScheduleService.isSleeping) {
+      return;
+    }
+
+    try {
+      const capturedAt = new Date().toISOString();
+      const { image, width, height } = await this.capture(environment.screenshots.thumbnailWidth);
+      await this.upload(image, 'thumbnail.jpg', width, height, capturedAt);
+    } catch (error: any) {
+      this.logService.warn(`Thumbnail capture failed: ${error?.message || error}`);
+    }
+  }
+
+  private async upload(image: Blob, name: string, width: number, height: number, capturedAt: string): Promise<ScreenshotResult> {
+    const deviceId = localStorage.getItem('deviceId');
+    if (!deviceId) {
+      throw new Error('Device not registered');
+    }
+
+    const path = `${deviceId}/${name}`;
+    const { error } = await supabase.storage
+      .from(environment.screenshots.bucket)
+      .upload(path, image, { contentType: 'image/jpeg', upsert: true });
+
+    if (error) {
+      throw new Error(`Screenshot upload failed: ${error.message}`);
+    }
+
+    this.logService.debug(`Uploaded screenshot ${path} (${Math.round(image.size / 1024)} KB)`);
+    return { path, width, height, size: image.size, captured_at: capturedAt };
+  }
+
+  /**
+   * Draw an element and its children in document order
+   */
+  private renderElement(context: CanvasRenderingContext2D, element: Element, parent: RenderContext): void {
+    const style = getComputedStyle(element);
+    if (style.display === 'none' || style.visibility === 'hidden') {
+      return;
+    }
+
+    const opacity = parent.opacity * parseFloat(style.opacity || '1');
+    if (opacity <= 0) {
+      return; // e.g. the buffered slot behind the current item
+    }
+
+    const rect = element.getBoundingClientRect();
+    const clip = style.overflow === 'visible' ? parent.clip : this.intersect(parent.clip, rect);
+    if (clip.width <= 0 || clip.height <= 0) {
+      return;
+    }
+
+    context.save();
+    context.globalAlpha = opacity;
+    context.beginPath();
+    context.rect(parent.clip.left, parent.clip.top, parent.clip.width, parent.clip.height);
+    context.clip();
+
+    if (style.backgroundColor && style.backgroundColor !== 'transparent' && style.backgroundColor !== 'rgba(0, 0, 0, 0)') {
+      context.fillStyle = style.backgroundColor;
+      context.fillRect(rect.left, rect.top, rect.width, rect.height);
+    }
+
+    if (element instanceof HTMLImageElement) {
+      this.renderMedia(context, element, element.naturalWidth, element.naturalHeight, rect, style, element.currentSrc);
+    } else if (element instanceof HTMLVideoElement) {
+      this.renderMedia(context, element, element.videoWidth, element.videoHeight, rect, style, element.currentSrc);
+    } else if (element instanceof HTMLIFrameElement) {
+      this.renderPlaceholder(context, rect, `Web page: ${this.describeSource(element.src)}`);
+    } else {
+      this.renderText(context, element, rect, style);
+    }
+
+    context.restore();
+
+    for (const child of Array.from(element.children)) {
+      this.renderElement(context, child, { clip, opacity });
+    }
+  }
+
+  private renderMedia(
+    context: CanvasRenderingContext2D,
+    source: HTMLImageElement | HTMLVideoElement,
+    width: number,
+    height: number,
+    rect: DOMRect,
+    style: CSSStyleDeclaration,
+    src: string
+  ): void {
+    if (!width || !height) {
+      return; // Not loaded yet
+    }
+
+    if (!this.isReadable(source)) {
+      this.renderPlaceholder(context, rect, `Cross-origin media: ${this.describeSource(src)}`);
+      return;
+    }
+
+    // Apply object-fit the same way the item components do
+    let drawWidth = rect.width;
+    let drawHeight = rect.height;
+    if (style.objectFit === 'contain' || style.objectFit === 'cover') {
+      const fit = style.objectFit === 'contain'
+        ? Math.min(rect.width / width, rect.height / height)
+        : Math.max(rect.width / width, rect.height / height);
+      drawWidth = width * fit;
+      drawHeight = height * fit;
+    }
+
+    context.save();
+    context.beginPath();
+    context.rect(rect.left, rect.top, rect.width, rect.height);
+    context.clip();
+    context.drawImage(
+      source,
+      rect.left + (rect.width - drawWidth) / 2,
+      rect.top + (rect.height - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+    context.restore();
+  }
+
+  /**
+   * Draw the text directly inside an element (tickers, messages); icon ligatures are left out
+   */
+  private renderText(context: CanvasRenderingContext2D, element: Element, rect: DOMRect, style: CSSStyleDeclaration): void {
+    if (element.classList.contains('material-icons')) {
+      return;
+    }
+
+    const text = Array.from(element.childNodes)
+      .filter(node => node.nodeType === Node.TEXT_NODE)
+      .map(node => node.textContent || '')
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) {
+      return;
+    }
+
+    context.fillStyle = style.color;
+    context.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+    context.textBaseline = 'middle';
+    context.textAlign = style.textAlign === 'center' ? 'center' : 'left';
+    context.fillText(text, style.textAlign === 'center' ? rect.left + rect.width / 2 : rect.left, rect.top + rect.height / 2);
+  }
+
+  private renderPlaceholder(context: CanvasRenderingContext2D, rect: DOMRect, label: string): void {
+    context.fillStyle = '#333';
+    context.fillRect(rect.left, rect.top, rect.width, rect.height);
+    context.fillStyle = '#ccc';
+    context.font = `${Math.max(12, Math.round(rect.height / 20))}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(label, rect.left + rect.width / 2, rect.top + rect.height / 2, rect.width - 20);
+  }
+
+  /**
+   * Drawing unreadable media would taint the canvas and make the whole capture fail
+   */
+  private isReadable(source: CanvasImageSource): boolean {
+    const probe = document.createElement('canvas');
+    probe.width = 1;
+    probe.height = 1;
+
+    try {
+      const context = probe.getContext('2d')!;
+      context.drawImage(source, 0, 0, 1, 1);
+      context.getImageData(0, 0, 1, 1);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private describeSource(src: string): string {
+    try {
+      return new URL(src).hostname || src;
+    } catch (error) {
+      return src || 'unknown';
+    }
+  }
+
+  private intersect(a: DOMRect, b: DOMRect): DOMRect {
+    const left = Math.max(a.left, b.left);
+    const top = Math.max(a.top, b.top);
+    const right = Math.min(a.right, b.right);
+    const bottom = Math.min(a.bottom, b.bottom);
+    return new DOMRect(left, top, Math.max(0, right - left), Math.max(0, bottom - top));
+  }
+
+  ngOnDestroy(): void {
+    if (this.thumbnailInterval) {
+      clearInterval(this.thumbnailInterval);
+    }
+  }
+}
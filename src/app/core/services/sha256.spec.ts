@@ -0,0 +1,24 @@
+import { Sha256 } from './sha256';
+
+const bytes = (text: string) => new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+
+describe('Sha256', () => {
+  it('should hash the standard test vectors', () => {
+    expect(new Sha256().digestHex())
+      .toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(new Sha256().update(bytes('abc')).digestHex())
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(new Sha256().update(bytes('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).digestHex())
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('should give the same hash however the input is split', () => {
+    const data = new Uint8Array(1000000).fill('a'.charCodeAt(0));
+    const hash = new Sha256();
+    for (let start = 0, size = 1; start < data.length; start += size, size = size * 3 % 977 + 1) {
+      hash.update(data.subarray(start, start + size));
+    }
+
+    expect(hash.digestHex()).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+});
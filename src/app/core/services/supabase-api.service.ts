@@ -1,12 +1,13 @@
 // src/app/core/services/supabase-api.service.ts
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, from, of } from 'rxjs';
+import { Observable, forkJoin, from, of } from 'rxjs';
 import { map, catchError, switchMap } from 'rxjs/operators';
 import { supabase } from './supabase.config';
 import { LogService } from './log.service';
-import { Playlist, PlaylistItem } from '../models/playlist.model';
-import { Screen } from '../models/screen.model';
+import { Playlist, PlaylistItem, PlaylistVersion, TransitionType } from '../models/playlist.model';
+import { Screen, TagAssignment } from '../models/screen.model';
+import { ScreenAlert } from '../models/alert.model';
 import { environment } from '../../../environments/environment';
 
 @Injectable({
@@ -70,6 +71,29 @@ export class SupabaseApiService {
     );
   }
 
+  /**
+   * Get all tag assignments; which ones apply is decided by the player from its tags
+   */
+  getTagAssignments(): Observable<TagAssignment[]> {
+    return from(
+      supabase
+        .from('tag_assignments')
+        .select('*')
+        .order('priority', { ascending: true })
+    ).pipe(
+      map(({ data, error }: any) => {
+        if (error) {
+          throw error;
+        }
+        return (data || []) as TagAssignment[];
+      }),
+      catchError(error => {
+        this.logService.error(`Error fetching tag assignments: ${error.message}`);
+        return of([]);
+      })
+    );
+  }
+
   /**
    * Get playlist by ID
    */
@@ -90,14 +114,23 @@ export class SupabaseApiService {
         // Now get the playlist items
         return this.getPlaylistItems(playlistId).pipe(
           map(items => {
+            // Items without a zone belong to the main zone
+            const mainItems = items.filter(item => !item.zone || item.zone === 'main');
+            const sidebarItems = items.filter(item => item.zone === 'sidebar');
+            const tickerItems = items.filter(item => item.zone === 'ticker');
+            
             // Construct the full playlist object
             const playlist: Playlist = {
               id: playlistData.id,
               name: playlistData.name,
               description: playlistData.description || '',
               duration: playlistData.duration || 0,
-              items: items,
-              lastModified: playlistData.updated_at,
+              items: mainItems,
+              zones: {
+                sidebar: sidebarItems,
+                ticker: tickerItems
+              },
+              lastModified: latestTimestamp([playlistData.updated_at, ...items.map(item => item.lastModified)]),
               createdBy: playlistData.created_by,
               status: playlistData.status || 'active',
               tags: playlistData.tags || [],
@@ -150,23 +183,35 @@ export class SupabaseApiService {
           type: item.type as 'image' | 'video' | 'webpage' | 'ticker',
           name: item.name,
           duration: item.duration,
+          zone: (item.zone || 'main') as 'main' | 'sidebar' | 'ticker',
+          lastModified: item.updated_at || undefined,
           content: {
             url: item.content_url,
-            thumbnail: item.thumbnail_url
+            thumbnail: item.thumbnail_url,
+            sha256: item.content_sha256 ? String(item.content_sha256).toLowerCase() : undefined,
+            size: item.content_size || undefined
           },
           settings: {
-            transition: item.transition as 'fade' | 'slide' | 'none' || 'fade',
-            transitionDuration: item.transition_duration || 0.5,
+            // Without their own transition items use the playlist default
+            transition: (item.transition || undefined) as TransitionType | undefined,
+            transitionDuration: item.transition_duration || undefined,
             scaling: item.scaling as 'fit' | 'fill' | 'stretch' || 'fit',
             muted: item.muted,
-            loop: item.loop
+            loop: item.loop,
+            weight: item.weight ?? undefined,
+            shareOfVoice: item.share_of_voice ?? undefined,
+            ticker: item.ticker_settings || undefined
           },
-          schedule: item.schedule_enabled ? {
-            enabled: item.schedule_enabled,
-            startTime: item.schedule_start_time,
-            endTime: item.schedule_end_time,
-            daysOfWeek: item.schedule_days || [],
-            priority: item.schedule_priority || 1
+          // The item's own validity window. The schedule_* columns are not used here:
+          // they make ScheduleService pick the whole playlist.
+          schedule: hasValidityWindow(item) ? {
+            enabled: true,
+            startTime: item.valid_start_time || null,
+            endTime: item.valid_end_time || null,
+            daysOfWeek: item.valid_days || [],
+            startDate: item.valid_start_date || null,
+            endDate: item.valid_end_date || null,
+            priority: 1
           } : undefined
         }));
       }),
@@ -254,6 +299,112 @@ export class SupabaseApiService {
     );
   }
 
+  /**
+   * Get the version of a playlist to compare with the cached copy, without
+   * fetching its items
+   */
+  getPlaylistVersion(playlistId: string): Observable<PlaylistVersion | null> {
+    return forkJoin([
+      from(
+        supabase
+          .from('playlists')
+          .select('updated_at')
+          .eq('id', playlistId)
+          .single()
+      ),
+      from(
+        supabase
+          .from('playlist_items')
+          .select('updated_at', { count: 'exact' })
+          .eq('playlist_id', playlistId)
+          .order('updated_at', { ascending: false, nullsFirst: false })
+          .limit(1)
+      )
+    ]).pipe(
+      map(([playlistResult, itemsResult]: any[]) => {
+        if (playlistResult.error) {
+          throw playlistResult.error;
+        }
+        if (itemsResult.error) {
+          throw itemsResult.error;
+        }
+        if (!playlistResult.data?.updated_at) {
+          return null;
+        }
+        return {
+          lastModified: latestTimestamp([playlistResult.data.updated_at, itemsResult.data?.[0]?.updated_at]),
+          itemCount: itemsResult.count ?? 0
+        };
+      }),
+      catchError(error => {
+        this.logService.error(`Error fetching playlist version: ${error.message}`);
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Get the alerts that are neither cleared nor expired. Targeting is matched
+   * by the player, which knows its own area and tags.
+   */
+  getOpenAlerts(): Observable<ScreenAlert[] | null> {
+    return from(
+      supabase
+        .from('screen_alerts')
+        .select('*')
+        .is('cleared_at', null)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    ).pipe(
+      map(({ data, error }: any) => {
+        if (error) {
+          throw error;
+        }
+        return (data || []) as ScreenAlert[];
+      }),
+      catchError(error => {
+        this.logService.error(`Error fetching alerts: ${error.message}`);
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Get the metadata (without items) of several playlists
+   */
+  getPlaylistsByIds(playlistIds: string[]): Observable<Playlist[]> {
+    if (!playlistIds.length) {
+      return of([]);
+    }
+    
+    return from(
+      supabase
+        .from('playlists')
+        .select('id, name, settings, updated_at')
+        .in('id', playlistIds)
+    ).pipe(
+      map(({ data, error }: any) => {
+        if (error) {
+          throw error;
+        }
+        
+        return data.map((playlist: any) => ({
+          id: playlist.id,
+          name: playlist.name,
+          duration: 0,
+          items: [],
+          lastModified: playlist.updated_at,
+          createdBy: '',
+          status: 'active',
+          settings: playlist.settings
+        }) as Playlist);
+      }),
+      catchError(error => {
+        this.logService.error(`Error fetching playlists: ${error.message}`);
+        return of([]);
+      })
+    );
+  }
+
   /**
    * Check pending registrations for a code
    */
@@ -387,4 +538,16 @@ export class SupabaseApiService {
       })
     );
   }
-}
\ No newline at end of file
+}
+
+// The latest of a set of ISO timestamps, ignoring missing ones
+function latestTimestamp(values: (string | null | undefined)[]): string {
+  const timestamps = values.filter((value): value is string => !!value);
+  return timestamps.reduce((latest, value) => Date.parse(value) > Date.parse(latest) ? value : latest, timestamps[0] || '');
+}
+
+// Whether a playlist_items row limits when the item itself plays
+function hasValidityWindow(item: any): boolean {
+  return !!(item.valid_start_time || item.valid_end_time || item.valid_days?.length ||
+    item.valid_start_date || item.valid_end_date);
+}
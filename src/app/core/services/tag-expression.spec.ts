@@ -0,0 +1,36 @@
+import { matchesTagExpression, parseTagExpression } from './tag-expression';
+
+describe('tag expressions', () => {
+  const tags = ['region:north', 'type:menuboard', 'Store 12'];
+
+  it('should match single tags case-insensitively', () => {
+    expect(matchesTagExpression('region:north', tags)).toBeTrue();
+    expect(matchesTagExpression('REGION:North', tags)).toBeTrue();
+    expect(matchesTagExpression('region:south', tags)).toBeFalse();
+  });
+
+  it('should combine tags with AND, OR and NOT', () => {
+    expect(matchesTagExpression('region:north AND type:menuboard', tags)).toBeTrue();
+    expect(matchesTagExpression('region:north and type:kiosk', tags)).toBeFalse();
+    expect(matchesTagExpression('type:kiosk OR type:menuboard', tags)).toBeTrue();
+    expect(matchesTagExpression('region:north AND NOT type:menuboard', tags)).toBeFalse();
+    expect(matchesTagExpression('NOT NOT region:north', tags)).toBeTrue();
+  });
+
+  it('should bind AND tighter than OR and honour parentheses', () => {
+    expect(matchesTagExpression('type:kiosk AND region:south OR region:north', tags)).toBeTrue();
+    expect(matchesTagExpression('type:kiosk AND (region:south OR region:north)', tags)).toBeFalse();
+  });
+
+  it('should support quoted tags and prefix wildcards', () => {
+    expect(matchesTagExpression('"store 12" AND region:*', tags)).toBeTrue();
+    expect(matchesTagExpression('floor:*', tags)).toBeFalse();
+  });
+
+  it('should reject malformed expressions and never match them', () => {
+    for (const expression of ['', 'region:north AND', 'region:north type:menuboard', '(region:north', 'region:north)', '"store 12']) {
+      expect(() => parseTagExpression(expression)).withContext(expression).toThrowError();
+      expect(matchesTagExpression(expression, tags)).withContext(expression).toBeFalse();
+    }
+  });
+});
@@ -0,0 +1,152 @@
+// tag-expression.ts
+
+/**
+ * Parsed tag expression. Screens are targeted as a group with expressions over
+ * their tags, e.g. `region:north AND (type:menuboard OR type:kiosk)`.
+ */
+export type TagExpression =
+  | { type: 'tag'; pattern: string }
+  | { type: 'not'; operand: TagExpression }
+  | { type: 'and' | 'or'; operands: TagExpression[] };
+
+type Token = { kind: 'tag' | 'and' | 'or' | 'not' | 'open' | 'close'; value: string };
+
+const parsedExpressions = new Map<string, TagExpression | null>();
+
+/**
+ * Parse a tag expression. Throws on a syntax error.
+ *
+ * - Operators are AND, OR and NOT (any case); NOT binds tightest, then AND.
+ * - Parentheses group, double quotes allow tags with spaces or operator names.
+ * - A trailing * matches any tag with that prefix (`region:*`).
+ * - Tags are compared case-insensitively.
+ */
+export function parseTagExpression(expression: string): TagExpression {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const describe = (token: Token | undefined): string => token ? `"${token.value}"` : 'end of expression';
+
+  const parseOr = (): TagExpression => {
+    const operands = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): TagExpression => {
+    const operands = [parseNot()];
+    while (peek()?.kind === 'and') {
+      position++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseNot = (): TagExpression => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      position++;
+      return { type: 'not', operand: parseNot() };
+    }
+    if (token?.kind === 'open') {
+      position++;
+      const inner = parseOr();
+      if (peek()?.kind !== 'close') {
+        throw new Error(`Expected ")" but found ${describe(peek())} in tag expression "${expression}"`);
+      }
+      position++;
+      return inner;
+    }
+    if (token?.kind === 'tag') {
+      position++;
+      return { type: 'tag', pattern: token.value.toLowerCase() };
+    }
+    throw new Error(`Expected a tag but found ${describe(token)} in tag expression "${expression}"`);
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Expected AND or OR but found ${describe(peek())} in tag expression "${expression}"`);
+  }
+  return result;
+}
+
+/**
+ * Check a screen's tags against an expression. An invalid expression matches nothing.
+ */
+export function matchesTagExpression(expression: string, tags: string[] | null | undefined): boolean {
+  if (!parsedExpressions.has(expression)) {
+    let parsed: TagExpression | null;
+    try {
+      parsed = parseTagExpression(expression);
+    } catch (e) {
+      parsed = null;
+    }
+    parsedExpressions.set(expression, parsed);
+  }
+
+  const parsed = parsedExpressions.get(expression);
+  if (!parsed) {
+    return false;
+  }
+
+  const normalized = (tags || []).map(tag => tag.trim().toLowerCase());
+  return evaluate(parsed, normalized);
+}
+
+function evaluate(expression: TagExpression, tags: string[]): boolean {
+  switch (expression.type) {
+    case 'tag':
+      return expression.pattern.endsWith('*')
+        ? tags.some(tag => tag.startsWith(expression.pattern.slice(0, -1)))
+        : tags.includes(expression.pattern);
+    case 'not':
+      return !evaluate(expression.operand, tags);
+    case 'and':
+      return expression.operands.every(operand => evaluate(operand, tags));
+    case 'or':
+      return expression.operands.some(operand => evaluate(operand, tags));
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', value: char });
+      i++;
+    } else if (char === '"') {
+      const end = expression.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated quote in tag expression "${expression}"`);
+      }
+      tokens.push({ kind: 'tag', value: expression.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < expression.length && !/[\s()"]/.test(expression[end])) {
+        end++;
+      }
+      const word = expression.slice(i, end);
+      const operator = word.toUpperCase();
+      if (operator === 'AND' || operator === 'OR' || operator === 'NOT') {
+        tokens.push({ kind: operator.toLowerCase() as Token['kind'], value: word });
+      } else {
+        tokens.push({ kind: 'tag', value: word });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
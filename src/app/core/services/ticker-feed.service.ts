@@ -0,0 +1,135 @@
+// ticker-feed.service.ts
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, finalize, map, shareReplay } from 'rxjs/operators';
+import { LogService } from './log.service';
+
+// Headlines of a feed as kept for offline use
+interface CachedFeed {
+  headlines: string[];
+  fetchedAt: number;
+}
+
+/**
+ * Fetches headlines for ticker items from RSS, Atom or JSON feeds. The last
+ * headlines of every feed are kept in local storage, so a ticker keeps
+ * running on its last known headlines while the screen is offline.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TickerFeedService {
+  private readonly CACHE_KEY_PREFIX = 'tickerFeed:';
+  private readonly DEFAULT_REFRESH_INTERVAL = 300; // seconds
+  private readonly FRESHNESS_TOLERANCE = 15000; // A refresh tick comes a little less than an interval after the last fetch
+
+  // One request per feed, however many tickers show it
+  private activeRequests = new Map<string, Observable<string[] | null>>();
+
+  constructor(
+    private http: HttpClient,
+    private logService: LogService
+  ) {}
+
+  /**
+   * Get the headlines of a feed, from the cache while it is fresh enough. The
+   * cache counts as stale slightly before a full interval, so a ticker that
+   * refreshes every interval fetches on every tick.
+   */
+  getHeadlines(url: string, refreshInterval = this.DEFAULT_REFRESH_INTERVAL): Observable<string[]> {
+    const cached = this.getCached(url);
+    const maxAge = Math.max(30, refreshInterval) * 1000 - this.FRESHNESS_TOLERANCE;
+
+    if (cached && (Date.now() - cached.fetchedAt < maxAge || !navigator.onLine)) {
+      return of(cached.headlines);
+    }
+
+    return this.fetchFeed(url).pipe(
+      map(headlines => headlines ?? cached?.headlines ?? [])
+    );
+  }
+
+  private fetchFeed(url: string): Observable<string[] | null> {
+    const active = this.activeRequests.get(url);
+    if (active) {
+      return active;
+    }
+
+    const request = this.http.get(url, { responseType: 'text' }).pipe(
+      map(body => {
+        const headlines = parseFeed(body);
+        this.setCached(url, headlines);
+        this.logService.debug(`Fetched ${headlines.length} headlines from ${url}`);
+        return headlines;
+      }),
+      catchError(error => {
+        this.logService.warn(`Could not fetch ticker feed ${url}: ${error.message}`);
+        return of(null);
+      }),
+      finalize(() => this.activeRequests.delete(url)),
+      shareReplay(1)
+    );
+
+    this.activeRequests.set(url, request);
+    return request;
+  }
+
+  private getCached(url: string): CachedFeed | null {
+    try {
+      const stored = localStorage.getItem(this.CACHE_KEY_PREFIX + url);
+      return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private setCached(url: string, headlines: string[]): void {
+    try {
+      const cached: CachedFeed = { headlines, fetchedAt: Date.now() };
+      localStorage.setItem(this.CACHE_KEY_PREFIX + url, JSON.stringify(cached));
+    } catch (e) {
+      this.logService.warn(`Could not cache ticker feed ${url}`);
+    }
+  }
+}
+
+/**
+ * Extract the headlines from an RSS, Atom or JSON Feed document. A JSON array
+ * of strings or of objects with a title also works.
+ */
+export function parseFeed(body: string): string[] {
+  const text = body.trim();
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    const data = JSON.parse(text);
+    const items: any[] = Array.isArray(data) ? data : data.items || [];
+    return items
+      .map(item => typeof item === 'string' ? item : item?.title || item?.summary || '')
+      .map(cleanHeadline)
+      .filter(Boolean);
+  }
+
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length) {
+    throw new Error('Feed is neither XML nor JSON');
+  }
+
+  // RSS <item> or Atom <entry>
+  const entries = [
+    ...Array.from(document.getElementsByTagName('item')),
+    ...Array.from(document.getElementsByTagName('entry'))
+  ];
+  return entries
+    .map(entry => entry.getElementsByTagName('title')[0]?.textContent || '')
+    .map(cleanHeadline)
+    .filter(Boolean);
+}
+
+// Titles may contain markup or entities, and whitespace from the feed's formatting
+function cleanHeadline(value: string): string {
+  const text = /[<&]/.test(value)
+    ? new DOMParser().parseFromString(value, 'text/html').body.textContent || ''
+    : value;
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,108 @@
+// time-zone.service.ts
+import { Injectable, PLATFORM_ID, Inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { getTimeZoneOffset, isValidTimeZone, toZonedDate } from './zoned-time';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TimeZoneService {
+  private readonly TIME_ZONE_KEY = 'screenTimezone';
+  private isBrowser: boolean;
+  private currentTimeZone: string | null = null;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: any) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+
+    // Keep using the last known time zone while offline
+    if (this.isBrowser) {
+      const stored = localStorage.getItem(this.TIME_ZONE_KEY);
+      if (isValidTimeZone(stored)) {
+        this.currentTimeZone = stored;
+      }
+    }
+  }
+
+  /**
+   * The configured IANA time zone, or null to use the device time zone
+   */
+  get timeZone(): string | null {
+    return this.currentTimeZone;
+  }
+
+  /**
+   * Set the screen time zone (ScreenSettings.timezone)
+   * @returns true if the time zone changed
+   */
+  setTimeZone(timeZone: string | null | undefined): boolean {
+    const next = isValidTimeZone(timeZone) ? timeZone : null;
+    if (next === this.currentTimeZone) {
+      return false;
+    }
+
+    this.currentTimeZone = next;
+
+    if (this.isBrowser) {
+      if (next) {
+        localStorage.setItem(this.TIME_ZONE_KEY, next);
+      } else {
+        localStorage.removeItem(this.TIME_ZONE_KEY);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Current wall clock time in the screen time zone
+   */
+  now(): Date {
+    return this.toZoned(new Date());
+  }
+
+  /**
+   * Convert an instant into wall clock time in the screen time zone
+   */
+  toZoned(date: Date): Date {
+    return toZonedDate(date, this.currentTimeZone);
+  }
+
+  /**
+   * Format a time as HH:MM:SS in the screen time zone
+   */
+  formatTime(date: Date = new Date()): string {
+    return this.toZoned(date).toTimeString().slice(0, 8);
+  }
+
+  /**
+   * ISO 8601 timestamp with the screen time zone offset, e.g. 2024-01-01T09:00:00.000+01:00
+   */
+  toIsoString(date: Date = new Date()): string {
+    const offset = getTimeZoneOffset(date, this.currentTimeZone);
+    const zoned = this.toZoned(date);
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+    const sign = offset >= 0 ? '+' : '-';
+    const absOffset = Math.abs(offset);
+
+    return `${zoned.getFullYear()}-${pad(zoned.getMonth() + 1)}-${pad(zoned.getDate())}` +
+      `T${pad(zoned.getHours())}:${pad(zoned.getMinutes())}:${pad(zoned.getSeconds())}.${pad(zoned.getMilliseconds(), 3)}` +
+      `${sign}${pad(Math.floor(absOffset / 60))}:${pad(absOffset % 60)}`;
+  }
+
+  /**
+   * Milliseconds until the next occurrence of a wall clock time (HH:MM) in the screen time zone
+   */
+  msUntil(hours: number, minutes: number): number {
+    const now = new Date();
+    const zonedNow = this.toZoned(now);
+    const target = new Date(zonedNow.getTime());
+    target.setHours(hours, minutes, 0, 0);
+
+    // If the target time has already passed today, use tomorrow
+    if (target.getTime() <= zonedNow.getTime()) {
+      target.setDate(target.getDate() + 1);
+    }
+
+    return target.getTime() - zonedNow.getTime();
+  }
+}
@@ -0,0 +1,169 @@
+// zone-playback.service.ts
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { ContentSyncService } from './content-sync.service';
+import { LogService } from './log.service';
+import { PlaybackService } from './playback.service';
+import { ProofOfPlayService } from './proof-of-play.service';
+import { ItemTransition, LayoutZoneId, PlaylistItem } from '../models/playlist.model';
+import { PlayEndReason } from '../models/proof-of-play.model';
+
+/**
+ * Plays the item sequence of a single layout zone (sidebar, ticker band).
+ * Not provided in root: every zone component provides its own instance so
+ * the zones advance independently of each other and of the main zone.
+ */
+@Injectable()
+export class ZonePlaybackService implements OnDestroy {
+  currentItem$ = new BehaviorSubject<PlaylistItem | null>(null);
+  nextItem$ = new BehaviorSubject<PlaylistItem | null>(null); // Item coming in during a transition
+  currentTransition$ = new BehaviorSubject<ItemTransition>({ type: 'none', duration: 0 });
+
+  private zoneId: LayoutZoneId = 'main';
+  private playlistId: string | null = null;
+  private items: PlaylistItem[] = [];
+  private currentIndex = 0;
+  private currentTransitionTimeout: any = null;
+  private playTimeout: any = null;
+
+  constructor(
+    private contentSyncService: ContentSyncService,
+    private logService: LogService,
+    private playbackService: PlaybackService,
+    private proofOfPlayService: ProofOfPlayService
+  ) {}
+
+  /**
+   * Start playing a new item sequence in this zone. An updated sequence of the
+   * playlist that is already playing is merged without starting over.
+   */
+  loadItems(zoneId: LayoutZoneId, items: PlaylistItem[], playlistId: string | null = null): void {
+    if (playlistId && playlistId === this.playlistId && zoneId === this.zoneId &&
+        this.currentItem$.value && items?.length) {
+      this.mergeItems(items);
+      return;
+    }
+
+    this.clearTimers();
+    this.proofOfPlayService.endItem(this.zoneId, 'interrupted');
+
+    this.zoneId = zoneId;
+    this.playlistId = playlistId;
+    this.items = items || [];
+    this.currentIndex = 0;
+
+    if (!this.items.length) {
+      this.currentItem$.next(null);
+      return;
+    }
+
+    this.logService.info(`Zone ${this.zoneId}: loaded ${this.items.length} items`);
+
+    // Make sure every item of the zone is available offline
+    for (const item of this.items) {
+      if (item.content?.url) {
+        this.contentSyncService.preloadContent(item.content.url, item);
+      }
+    }
+
+    this.playCurrentItem();
+  }
+
+  /**
+   * Switch to an updated sequence, keeping the position of the current item.
+   * A removed current item is skipped right away.
+   */
+  private mergeItems(items: PlaylistItem[]): void {
+    const current = this.currentItem$.value!;
+    const index = items.findIndex(item => item.id === current.id);
+
+    for (const item of items) {
+      if (item.content?.url) {
+        this.contentSyncService.preloadContent(item.content.url, item);
+      }
+    }
+
+    if (index >= 0) {
+      this.items = items;
+      this.currentIndex = index;
+      this.logService.info(`Zone ${this.zoneId}: merged ${items.length} updated items`);
+      return;
+    }
+
+    // Continue with the item that took the place of the removed one
+    this.currentIndex = Math.min(this.currentIndex, items.length) - 1;
+    this.items = items;
+    this.logService.info(`Zone ${this.zoneId}: current item removed, skipping it`);
+    this.proofOfPlayService.endItem(this.zoneId, 'interrupted');
+    this.skipToNext();
+  }
+
+  /**
+   * Move on to the next item of the zone, recording how the current one ended
+   */
+  skipToNext(reason: PlayEndReason = 'skipped'): void {
+    if (!this.items.length) {
+      return;
+    }
+
+    this.clearTimers();
+    this.proofOfPlayService.endItem(this.zoneId, reason);
+
+    // Bring the next item in with the same transitions as the main zone
+    const transition = this.playbackService.getTransition(this.currentItem$.value);
+    const nextIndex = (this.currentIndex + 1) % this.items.length;
+    this.currentTransition$.next(transition);
+    this.nextItem$.next(this.items[nextIndex]);
+
+    this.currentTransitionTimeout = setTimeout(() => {
+      this.currentIndex = nextIndex;
+      this.currentTransitionTimeout = null;
+      this.playCurrentItem();
+    }, transition.duration);
+  }
+
+  /**
+   * Stop playback in this zone
+   */
+  stop(): void {
+    this.clearTimers();
+    this.proofOfPlayService.endItem(this.zoneId, 'interrupted');
+    this.items = [];
+    this.currentIndex = 0;
+    this.currentItem$.next(null);
+  }
+
+  private playCurrentItem(): void {
+    const item = this.items[this.currentIndex];
+    if (!item) {
+      return;
+    }
+
+    // Reset first so a zone with a single item is recreated and restarts its timer
+    this.currentItem$.next(null);
+
+    this.playTimeout = setTimeout(() => {
+      this.logService.debug(`Zone ${this.zoneId}: playing item ${item.name} (${this.currentIndex + 1}/${this.items.length})`);
+      this.currentItem$.next(item);
+      this.nextItem$.next(null);
+      this.proofOfPlayService.startItem(item, this.playlistId, this.zoneId);
+      this.playTimeout = null;
+    }, 50);
+  }
+
+  private clearTimers(): void {
+    if (this.currentTransitionTimeout) {
+      clearTimeout(this.currentTransitionTimeout);
+      this.currentTransitionTimeout = null;
+    }
+    if (this.playTimeout) {
+      clearTimeout(this.playTimeout);
+      this.playTimeout = null;
+    }
+    this.nextItem$.next(null);
+  }
+
+  ngOnDestroy(): void {
+    this.clearTimers();
+  }
+}
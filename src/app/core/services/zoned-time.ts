@@ -0,0 +1,77 @@
+// zoned-time.ts
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check whether a string is a valid IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Convert an instant into a "wall clock" Date whose local getters (getHours,
+ * getDay, getDate, ...) return the time as seen in the given time zone.
+ * Without a (valid) time zone the date is returned unchanged.
+ */
+export function toZonedDate(date: Date, timeZone?: string | null): Date {
+  if (!timeZone) {
+    return new Date(date.getTime());
+  }
+
+  // Only an unknown zone needs checking, the cache holds valid ones
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    if (!isValidTimeZone(timeZone)) {
+      return new Date(date.getTime());
+    }
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return new Date(
+    parts['year'],
+    parts['month'] - 1,
+    parts['day'],
+    parts['hour'],
+    parts['minute'],
+    parts['second'],
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Offset of a time zone from UTC in minutes at the given instant
+ */
+export function getTimeZoneOffset(date: Date, timeZone?: string | null): number {
+  const zoned = toZonedDate(date, timeZone);
+  const zonedAsUtc = Date.UTC(
+    zoned.getFullYear(), zoned.getMonth(), zoned.getDate(),
+    zoned.getHours(), zoned.getMinutes(), zoned.getSeconds(), zoned.getMilliseconds()
+  );
+  return Math.round((zonedAsUtc - date.getTime()) / 60000);
+}
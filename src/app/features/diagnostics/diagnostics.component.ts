@@ -6,6 +6,7 @@ import { interval, Subscription } from 'rxjs';
 import { LogService, LogEntry, LogLevel } from '../../core/services/log.service';
 import { ContentSyncService } from '../../core/services/content-sync.service';
 import { HeartbeatService } from '../../core/services/heartbeat.service';
+import { TimeZoneService } from '../../core/services/time-zone.service';
 import { environment } from '../../../environments/environment';
 import { FormsModule } from '@angular/forms';
 
@@ -38,7 +39,8 @@ export class DiagnosticsComponent implements OnInit, OnDestroy {
     private router: Router,
     private logService: LogService,
     private contentSyncService: ContentSyncService,
-    private heartbeatService: HeartbeatService
+    private heartbeatService: HeartbeatService,
+    private timeZoneService: TimeZoneService
   ) {}
   
   ngOnInit(): void {
@@ -86,7 +88,7 @@ export class DiagnosticsComponent implements OnInit, OnDestroy {
         diagnostics_opened: true
       }
     }).subscribe(() => {
-      this.lastHeartbeat = new Date().toLocaleTimeString();
+      this.lastHeartbeat = this.timeZoneService.formatTime();
     });
   }
   
@@ -122,7 +124,7 @@ export class DiagnosticsComponent implements OnInit, OnDestroy {
   
   formatTime(isoString: string): string {
     try {
-      return new Date(isoString).toLocaleTimeString();
+      return this.timeZoneService.formatTime(new Date(isoString));
     } catch (e) {
       return isoString;
     }
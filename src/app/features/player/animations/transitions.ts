@@ -0,0 +1,81 @@
+// transitions.ts
+import {
+  animate,
+  animation,
+  keyframes,
+  style,
+  transition,
+  trigger,
+  useAnimation
+} from '@angular/animations';
+
+// Reusable item transitions. All of them take a duration parameter in milliseconds.
+
+export const fadeIn = animation([
+  style({ opacity: 0 }),
+  animate('{{ duration }}ms ease-in', style({ opacity: 1 }))
+], { params: { duration: 500 } });
+
+export const zoomIn = animation([
+  style({ opacity: 0, transform: 'scale(0.6)' }),
+  animate('{{ duration }}ms ease-out', style({ opacity: 1, transform: 'scale(1)' }))
+], { params: { duration: 500 } });
+
+export const slideIn = animation([
+  style({ transform: 'translateX(100%)' }),
+  animate('{{ duration }}ms ease-out', style({ transform: 'translateX(0)' }))
+], { params: { duration: 500 } });
+
+export const slideOut = animation([
+  style({ transform: 'translateX(0)' }),
+  animate('{{ duration }}ms ease-out', style({ transform: 'translateX(-100%)' }))
+], { params: { duration: 500 } });
+
+// Reveal the incoming item behind an edge that moves across the screen
+export const wipeIn = animation([
+  style({ clipPath: '{{ from }}' }),
+  animate('{{ duration }}ms ease-in-out', style({ clipPath: 'inset(0 0 0 0)' }))
+], { params: { duration: 500, from: 'inset(0 0 0 100%)' } });
+
+// Dissolve through black: the outgoing item fades out in the first half,
+// the incoming one fades in during the second half
+export const dissolveIn = animation([
+  animate('{{ duration }}ms', keyframes([
+    style({ opacity: 0, offset: 0 }),
+    style({ opacity: 0, offset: 0.5 }),
+    style({ opacity: 1, offset: 1 })
+  ]))
+], { params: { duration: 1000 } });
+
+export const dissolveOut = animation([
+  animate('{{ duration }}ms', keyframes([
+    style({ opacity: 1, offset: 0 }),
+    style({ opacity: 0, offset: 0.5 }),
+    style({ opacity: 0, offset: 1 })
+  ]))
+], { params: { duration: 1000 } });
+
+// Keep the incoming item hidden until the beat, then cut
+export const cutIn = animation([
+  style({ opacity: 0 }),
+  animate('{{ duration }}ms step-end', style({ opacity: 1 }))
+], { params: { duration: 0 } });
+
+/**
+ * Trigger for the two buffer slots of the player. A slot is in the state
+ * `enter-<type>` while it comes in and `leave-<type>` while it goes out;
+ * transitions without an animation for one side simply leave it as it is.
+ */
+export const slotTransition = trigger('slotTransition', [
+  transition('* => enter-fade', useAnimation(fadeIn)),
+  transition('* => enter-zoom', useAnimation(zoomIn)),
+  transition('* => enter-slide, * => enter-push', useAnimation(slideIn)),
+  transition('* => leave-push', useAnimation(slideOut)),
+  transition('* => enter-wipe-left', useAnimation(wipeIn, { params: { from: 'inset(0 0 0 100%)' } })),
+  transition('* => enter-wipe-right', useAnimation(wipeIn, { params: { from: 'inset(0 100% 0 0)' } })),
+  transition('* => enter-wipe-up', useAnimation(wipeIn, { params: { from: 'inset(100% 0 0 0)' } })),
+  transition('* => enter-wipe-down', useAnimation(wipeIn, { params: { from: 'inset(0 0 100% 0)' } })),
+  transition('* => enter-dissolve', useAnimation(dissolveIn)),
+  transition('* => leave-dissolve', useAnimation(dissolveOut)),
+  transition('* => enter-cut-on-beat', useAnimation(cutIn))
+]);
@@ -0,0 +1,101 @@
+// alert-overlay.component.ts
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ScreenAlert } from '../../../core/models/alert.model';
+
+@Component({
+  selector: 'app-alert-overlay',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="alert-container" [ngClass]="alert.severity" [ngStyle]="alertStyle">
+      <span class="material-icons alert-icon">{{ icon }}</span>
+      <h1 class="alert-title">{{ alert.title }}</h1>
+      <p class="alert-message">{{ alert.message }}</p>
+    </div>
+  `,
+  styles: [`
+    :host {
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      z-index: 300; /* Above the sleep overlay: alerts also show while the display sleeps */
+      cursor: none;
+    }
+
+    .alert-container {
+      width: 100%;
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      padding: 5vh 8vw;
+      box-sizing: border-box;
+      text-align: center;
+      color: #fff;
+      background-color: #1565c0;
+
+      &.warning {
+        color: #000;
+        background-color: #ffb300;
+      }
+
+      &.emergency {
+        background-color: #c62828;
+        animation: alert-pulse 1.5s ease-in-out infinite;
+      }
+    }
+
+    .alert-icon {
+      font-size: 12vh;
+    }
+
+    .alert-title {
+      margin: 2vh 0;
+      font-size: 9vh;
+      font-weight: bold;
+      text-transform: uppercase;
+    }
+
+    .alert-message {
+      margin: 0;
+      font-size: 5vh;
+      line-height: 1.3;
+      white-space: pre-line;
+    }
+
+    @keyframes alert-pulse {
+      0%, 100% { filter: brightness(1); }
+      50% { filter: brightness(0.75); }
+    }
+  `]
+})
+export class AlertOverlayComponent {
+  @Input({ required: true }) alert!: ScreenAlert;
+
+  get icon(): string {
+    switch (this.alert.severity) {
+      case 'emergency':
+        return 'warning';
+      case 'warning':
+        return 'error_outline';
+      default:
+        return 'info';
+    }
+  }
+
+  // Colors set on the alert override the severity colors
+  get alertStyle(): Record<string, string> {
+    const style: Record<string, string> = {};
+    if (this.alert.background_color) {
+      style['background-color'] = this.alert.background_color;
+    }
+    if (this.alert.text_color) {
+      style['color'] = this.alert.text_color;
+    }
+    return style;
+  }
+}
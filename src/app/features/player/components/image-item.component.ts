@@ -1,7 +1,8 @@
 // image-item.component.ts
-import { Component, Input, Output, EventEmitter, OnInit, OnDestroy } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChanges } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { PlaylistItem } from '../../../core/models/playlist.model';
+import { PlayEndReason } from '../../../core/models/proof-of-play.model';
 import { LogService } from '../../../core/services/log.service';
 import { ContentSyncService } from '../../../core/services/content-sync.service';
 
@@ -94,11 +95,12 @@ import { ContentSyncService } from '../../../core/services/content-sync.service'
     }
   `]
 })
-export class ImageItemComponent implements OnInit, OnDestroy {
+export class ImageItemComponent implements OnInit, OnChanges, OnDestroy {
   @Input() item: PlaylistItem | null = null;
   @Input() scaling: 'fit' | 'fill' | 'stretch' = 'fit';
   @Input() preload = false; // If true, just preload but don't start timer
-  @Output() ended = new EventEmitter<void>();
+  @Input() startAt = 0; // Seconds already shown before an alert interrupted the item
+  @Output() ended = new EventEmitter<PlayEndReason>();
   
   localImageUrl: string | null = null;
   loading = true;
@@ -125,6 +127,14 @@ export class ImageItemComponent implements OnInit, OnDestroy {
     this.loadImage();
   }
   
+  ngOnChanges(changes: SimpleChanges): void {
+    // A buffered item starts its timer when it becomes visible
+    // (if it is still loading, onImageLoaded starts it)
+    if (changes['preload'] && !changes['preload'].firstChange && !this.preload && !this.loading && this.item) {
+      this.startTimer();
+    }
+  }
+  
   ngOnDestroy(): void {
     this.clearTimer();
     
@@ -171,7 +181,7 @@ export class ImageItemComponent implements OnInit, OnDestroy {
     if (!this.item) return;
     
     // First check if we have a local cached version
-    this.contentSyncService.getLocalContentUrl(this.item.content.url).subscribe(
+    this.contentSyncService.getLocalContentUrl(this.item.content.url, this.item).subscribe(
       localUrl => {
         this.localImageUrl = localUrl;
         // We'll set loading to false after the image loads
@@ -191,8 +201,9 @@ export class ImageItemComponent implements OnInit, OnDestroy {
     // Set timer for the duration of this item
     if (this.item && this.item.duration > 0) {
       this.timer = setTimeout(() => {
-        this.ended.emit();
-      }, this.item.duration * 1000); // Convert seconds to milliseconds
+        // The placeholder was shown instead of the image
+        this.ended.emit(this.localImageUrl ? 'completed' : 'failed');
+      }, Math.max(0, this.item.duration - this.startAt) * 1000); // Convert seconds to milliseconds
     }
   }
   
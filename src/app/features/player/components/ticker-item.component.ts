@@ -1,18 +1,30 @@
 // ticker-item.component.ts
-import { Component, Input, Output, EventEmitter, OnInit, OnDestroy } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChanges, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { PlaylistItem } from '../../../core/models/playlist.model';
+import { Subscription, timer } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { PlaylistItem, TickerSettings } from '../../../core/models/playlist.model';
+import { PlayEndReason } from '../../../core/models/proof-of-play.model';
 import { LogService } from '../../../core/services/log.service';
+import { TickerFeedService } from '../../../core/services/ticker-feed.service';
 
 @Component({
   selector: 'app-ticker-item',
   standalone: true,
   imports: [CommonModule],
   template: `
-    <div class="ticker-container">
-      @if (item && !loading) {
-        <div class="ticker-content" [ngStyle]="getTickerStyle()">
-          {{ tickerText }}
+    <div #container class="ticker-container" [ngStyle]="getBandStyle()">
+      @if (item && !loading && tickerText) {
+        <!-- Enough copies of the text to fill the band; moving by exactly one copy loops seamlessly -->
+        <div class="ticker-track"
+             [class.rtl]="settings.direction === 'rtl'"
+             [class.scrolling]="scrollDistance > 0"
+             [style.--ticker-distance]="scrollDistance + 'px'"
+             [style.animation-duration.s]="scrollDuration">
+          @for (copy of copies; track $index) {
+            <span #copy class="ticker-content" [ngStyle]="getTickerStyle()" [attr.dir]="settings.direction || 'auto'"
+                  [attr.aria-hidden]="$index > 0 ? 'true' : null">{{ tickerText }}{{ separator }}</span>
+          }
         </div>
       }
 
@@ -36,23 +48,40 @@ import { LogService } from '../../../core/services/log.service';
       height: 100%;
       display: flex;
       align-items: center;
-      justify-content: center;
       background-color: rgba(0, 0, 0, 0.7);
       color: white;
       overflow: hidden;
     }
     
+    .ticker-track {
+      display: flex;
+      flex-shrink: 0;
+      will-change: transform;
+
+      &.scrolling {
+        animation-name: ticker-scroll;
+        animation-timing-function: linear;
+        animation-iteration-count: infinite;
+      }
+
+      /* Right-to-left scripts read from the right, so the text moves to the right */
+      &.rtl {
+        animation-direction: reverse;
+      }
+    }
+
     .ticker-content {
-      white-space: nowrap;
+      flex-shrink: 0;
+      white-space: pre;
       font-size: 2rem;
       font-weight: bold;
-      animation: ticker-scroll 20s linear infinite;
     }
     
     .loading-indicator {
       display: flex;
       align-items: center;
       justify-content: center;
+      width: 100%;
       
       .spinner {
         width: 50px;
@@ -66,10 +95,10 @@ import { LogService } from '../../../core/services/log.service';
     
     @keyframes ticker-scroll {
       from {
-        transform: translateX(100%);
+        transform: translateX(0);
       }
       to {
-        transform: translateX(-100%);
+        transform: translateX(calc(-1 * var(--ticker-distance)));
       }
     }
     
@@ -78,17 +107,41 @@ import { LogService } from '../../../core/services/log.service';
     }
   `]
 })
-export class TickerItemComponent implements OnInit, OnDestroy {
+export class TickerItemComponent implements OnInit, OnChanges, OnDestroy {
   @Input() item: PlaylistItem | null = null;
   @Input() preload = false; // Add this input property to fix the error
   @Input() duration: number = 10;
-  @Output() ended = new EventEmitter<void>();
+  @Input() startAt = 0; // Seconds already shown before an alert interrupted the item
+  @Output() ended = new EventEmitter<PlayEndReason>();
+
+  @ViewChild('container') containerRef?: ElementRef<HTMLElement>;
+  @ViewChild('copy') copyRef?: ElementRef<HTMLElement>;
   
   tickerText: string = '';
   loading = true;
+  copies = [0];
+  scrollDistance = 0; // Width of one copy of the text in pixels
+  scrollDuration = 0; // Seconds to move by one copy at the configured speed
+
+  private readonly DEFAULT_SPEED = 100; // pixels per second
+  private readonly DEFAULT_SEPARATOR = ' • ';
+  private readonly DEFAULT_MAX_HEADLINES = 10;
   private timer: any;
+  private measureTimeout: any;
+  private feedSubscription: Subscription | null = null;
   
-  constructor(private logService: LogService) {}
+  constructor(
+    private logService: LogService,
+    private tickerFeedService: TickerFeedService
+  ) {}
+
+  get settings(): TickerSettings {
+    return this.item?.settings?.ticker || {};
+  }
+
+  get separator(): string {
+    return this.settings.separator ?? this.DEFAULT_SEPARATOR;
+  }
   
   ngOnInit(): void {
     this.loading = true;
@@ -98,9 +151,12 @@ export class TickerItemComponent implements OnInit, OnDestroy {
       return;
     }
     
-    // For a ticker, the content URL actually contains the text
-    this.tickerText = this.item.content.url;
-    this.loading = false;
+    if (this.settings.source === 'feed') {
+      this.followFeed(this.item.content.url);
+    } else {
+      // For a text ticker, the content URL actually contains the text
+      this.setText(this.item.content.url);
+    }
     
     // If not in preload mode, start the timer for duration
     if (!this.preload) {
@@ -108,8 +164,71 @@ export class TickerItemComponent implements OnInit, OnDestroy {
     }
   }
   
+  ngOnChanges(changes: SimpleChanges): void {
+    // A buffered item starts its timer when it becomes visible
+    if (changes['preload'] && !changes['preload'].firstChange && !this.preload && this.item) {
+      this.startTimer();
+    }
+  }
+  
   ngOnDestroy(): void {
     this.clearTimer();
+    this.feedSubscription?.unsubscribe();
+    if (this.measureTimeout) {
+      clearTimeout(this.measureTimeout);
+    }
+  }
+
+  /**
+   * Show the headlines of a feed and pick up new ones while the ticker is on screen
+   */
+  private followFeed(url: string): void {
+    const refreshInterval = this.settings.refreshInterval || 300;
+    const maxHeadlines = this.settings.maxHeadlines || this.DEFAULT_MAX_HEADLINES;
+
+    this.feedSubscription = timer(0, refreshInterval * 1000).pipe(
+      switchMap(() => this.tickerFeedService.getHeadlines(url, refreshInterval))
+    ).subscribe(headlines => {
+      if (!headlines.length) {
+        this.logService.warn(`No headlines available for ticker ${this.item?.name}`);
+      }
+      this.setText(headlines.slice(0, maxHeadlines).join(this.separator));
+    });
+  }
+
+  private setText(text: string): void {
+    this.loading = false;
+    if (text === this.tickerText && this.scrollDistance > 0) {
+      return;
+    }
+
+    this.tickerText = text || '';
+    this.copies = [0];
+    this.scrollDistance = 0;
+
+    // Measure once the new text is rendered in its final font
+    if (this.measureTimeout) {
+      clearTimeout(this.measureTimeout);
+    }
+    this.measureTimeout = setTimeout(() => document.fonts.ready.then(() => this.measure()));
+  }
+
+  /**
+   * Size the loop to the rendered text: as many copies as it takes to cover the
+   * band plus one, scrolled by the width of one copy at the configured speed
+   */
+  private measure(): void {
+    this.measureTimeout = null;
+    const copyWidth = this.copyRef?.nativeElement.offsetWidth || 0;
+    const bandWidth = this.containerRef?.nativeElement.offsetWidth || 0;
+    if (!copyWidth || !this.tickerText) {
+      return;
+    }
+
+    const speed = this.settings.speed || this.DEFAULT_SPEED;
+    this.copies = Array.from({ length: Math.ceil(bandWidth / copyWidth) + 1 }, (_, i) => i);
+    this.scrollDistance = copyWidth;
+    this.scrollDuration = copyWidth / speed;
   }
   
   private startTimer(): void {
@@ -121,8 +240,8 @@ export class TickerItemComponent implements OnInit, OnDestroy {
     
     // Set timer for the duration of this item
     this.timer = setTimeout(() => {
-      this.ended.emit();
-    }, duration * 1000);
+      this.ended.emit(this.tickerText ? 'completed' : 'failed');
+    }, Math.max(0, duration - this.startAt) * 1000);
   }
   
   private clearTimer(): void {
@@ -132,11 +251,17 @@ export class TickerItemComponent implements OnInit, OnDestroy {
     }
   }
   
+  getBandStyle(): any {
+    return this.settings.backgroundColor ? { backgroundColor: this.settings.backgroundColor } : {};
+  }
+
   getTickerStyle(): any {
-    // Add any custom styling for the ticker
+    const settings = this.settings;
     return {
-      color: 'white',
-      fontSize: '2rem',
+      color: settings.textColor || 'white',
+      fontSize: settings.fontSize || '2rem',
+      fontFamily: settings.fontFamily || null,
+      fontWeight: settings.fontWeight || null,
       textShadow: '2px 2px 4px rgba(0, 0, 0, 0.5)'
     };
   }
@@ -1,7 +1,8 @@
 // video-item.component.ts
-import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChanges, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { PlaylistItem } from '../../../core/models/playlist.model';
+import { PlayEndReason } from '../../../core/models/proof-of-play.model';
 import { LogService } from '../../../core/services/log.service';
 import { ContentSyncService } from '../../../core/services/content-sync.service';
 
@@ -17,6 +18,7 @@ import { ContentSyncService } from '../../../core/services/content-sync.service'
         [muted]="muted"
         [loop]="loop"
         [autoplay]="!preload"
+        preload="auto"
         (loadeddata)="onVideoLoaded()"
         (error)="onVideoError($event)"
         (ended)="onVideoEnded()"
@@ -98,14 +100,15 @@ import { ContentSyncService } from '../../../core/services/content-sync.service'
     }
   `],
 })
-export class VideoItemComponent implements OnInit, OnDestroy {
+export class VideoItemComponent implements OnInit, OnChanges, OnDestroy {
   @ViewChild('videoElement') videoElement: ElementRef<HTMLVideoElement> | null = null;
   @Input() item: PlaylistItem | null = null;
   @Input() scaling: 'fit' | 'fill' | 'stretch' = 'fit';
   @Input() muted = true;
   @Input() loop = false;
   @Input() preload = false; // If true, just preload but don't play
-  @Output() ended = new EventEmitter<void>();
+  @Input() startAt = 0; // Position in seconds to continue from after an alert
+  @Output() ended = new EventEmitter<PlayEndReason>();
   
   localVideoUrl: string | null = null;
   loading = true;
@@ -130,6 +133,19 @@ export class VideoItemComponent implements OnInit, OnDestroy {
     this.loadVideo();
   }
   
+  ngOnChanges(changes: SimpleChanges): void {
+    // A buffered video is already decoded, start it the moment it becomes visible
+    if (changes['preload'] && !changes['preload'].firstChange && !this.preload) {
+      if (this.loadError && this.localVideoUrl === this.originalUrl) {
+        // Failed while buffered, move on like a failed visible video
+        this.clearErrorRetryTimer();
+        this.errorRetryTimer = setTimeout(() => this.ended.emit('failed'), 1000);
+      } else if (!this.loading) {
+        this.playVideo();
+      }
+    }
+  }
+  
   ngOnDestroy(): void {
     // Stop video playback when component is destroyed
     if (this.videoElement?.nativeElement) {
@@ -150,22 +166,37 @@ export class VideoItemComponent implements OnInit, OnDestroy {
   
   onVideoLoaded(): void {
     this.loading = false;
+    this.loadError = false;
     this.logService.info(`Video loaded: ${this.item?.name}`);
     
+    // Continue where an alert interrupted the video
+    const video = this.videoElement?.nativeElement;
+    if (video && this.startAt > 0 && video.duration > 0) {
+      video.currentTime = this.loop ? this.startAt % video.duration : Math.min(this.startAt, video.duration);
+    }
+    
     // Start playing if not in preload mode
-    if (!this.preload && this.videoElement?.nativeElement) {
-      const playPromise = this.videoElement.nativeElement.play();
-      
-      // Handle play promise (might be rejected if browser prevents autoplay)
-      if (playPromise !== undefined) {
-        playPromise.catch(error => {
-          this.logService.error(`Error playing video: ${error}`);
-          // If video can't autoplay, we still need to move to the next item
-          if (!this.loop) {
-            setTimeout(() => this.ended.emit(), 1000);
-          }
-        });
-      }
+    if (!this.preload) {
+      this.playVideo();
+    }
+  }
+  
+  private playVideo(): void {
+    if (!this.videoElement?.nativeElement) {
+      return;
+    }
+    
+    const playPromise = this.videoElement.nativeElement.play();
+    
+    // Handle play promise (might be rejected if browser prevents autoplay)
+    if (playPromise !== undefined) {
+      playPromise.catch(error => {
+        this.logService.error(`Error playing video: ${error}`);
+        // If video can't autoplay, we still need to move to the next item
+        if (!this.loop) {
+          setTimeout(() => this.ended.emit('failed'), 1000);
+        }
+      });
     }
   }
   
@@ -189,13 +220,13 @@ export class VideoItemComponent implements OnInit, OnDestroy {
     
     // Even on error, we need to emit ended event
     if (!this.preload) {
-      this.errorRetryTimer = setTimeout(() => this.ended.emit(), 1000);
+      this.errorRetryTimer = setTimeout(() => this.ended.emit('failed'), 1000);
     }
   }
   
   onVideoEnded(): void {
     if (!this.loop) {
-      this.ended.emit();
+      this.ended.emit('completed');
     }
   }
   
@@ -203,7 +234,7 @@ export class VideoItemComponent implements OnInit, OnDestroy {
     if (!this.item) return;
     
     // First check if we have a local cached version
-    this.contentSyncService.getLocalContentUrl(this.item.content.url).subscribe(
+    this.contentSyncService.getLocalContentUrl(this.item.content.url, this.item).subscribe(
       localUrl => {
         this.localVideoUrl = localUrl;
         // We'll set loading to false after the video loads
@@ -1,7 +1,8 @@
 // web-item.component.ts
-import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChanges, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { PlaylistItem } from '../../../core/models/playlist.model';
+import { PlayEndReason } from '../../../core/models/proof-of-play.model';
 import { LogService } from '../../../core/services/log.service';
 import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
 
@@ -82,11 +83,12 @@ import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
     }
   `]
 })
-export class WebItemComponent implements OnInit, OnDestroy {
+export class WebItemComponent implements OnInit, OnChanges, OnDestroy {
   @Input() item: PlaylistItem | null = null;
   @Input() duration: number = 10;
   @Input() preload = false;
-  @Output() ended = new EventEmitter<void>();
+  @Input() startAt = 0; // Seconds already shown before an alert interrupted the item
+  @Output() ended = new EventEmitter<PlayEndReason>();
   
   safeUrl: SafeResourceUrl | null = null;
   loading = true;
@@ -112,6 +114,13 @@ export class WebItemComponent implements OnInit, OnDestroy {
     }
   }
   
+  ngOnChanges(changes: SimpleChanges): void {
+    // A buffered item starts its timer when it becomes visible
+    if (changes['preload'] && !changes['preload'].firstChange && !this.preload && this.item) {
+      this.startTimer();
+    }
+  }
+  
   ngOnDestroy(): void {
     this.clearTimer();
   }
@@ -140,8 +149,8 @@ export class WebItemComponent implements OnInit, OnDestroy {
     
     // Set timer for the duration of this item
     this.timer = setTimeout(() => {
-      this.ended.emit();
-    }, duration * 1000);
+      this.ended.emit(this.safeUrl ? 'completed' : 'failed');
+    }, Math.max(0, duration - this.startAt) * 1000);
   }
   
   private clearTimer(): void {
@@ -0,0 +1,171 @@
+// zone.component.ts
+import { Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { ItemTransition, LayoutZoneId, PlaylistItem } from '../../../core/models/playlist.model';
+import { PlayEndReason } from '../../../core/models/proof-of-play.model';
+import { ZonePlaybackService } from '../../../core/services/zone-playback.service';
+import { ImageItemComponent } from './image-item.component';
+import { VideoItemComponent } from './video-item.component';
+import { WebItemComponent } from './web-item.component';
+import { TickerItemComponent } from './ticker-item.component';
+import { slotTransition } from '../animations/transitions';
+
+// An item shown in the zone; a new key mounts a fresh item component
+interface ZoneLayer {
+  key: number;
+  item: PlaylistItem;
+}
+
+@Component({
+  selector: 'app-zone',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ImageItemComponent,
+    VideoItemComponent,
+    WebItemComponent,
+    TickerItemComponent
+  ],
+  // Each zone runs its own sequence
+  providers: [ZonePlaybackService],
+  animations: [slotTransition],
+  template: `
+    <div *ngFor="let layer of layers; trackBy: trackByLayer"
+         class="zone-item"
+         [class.entering]="layer === incoming"
+         [@slotTransition]="layerAnimation(layer)">
+      <ng-container [ngSwitch]="layer.item.type">
+        <app-image-item
+          *ngSwitchCase="'image'"
+          [item]="layer.item"
+          [scaling]="layer.item.settings.scaling || 'fit'"
+          (ended)="onLayerEnded(layer, $event)">
+        </app-image-item>
+
+        <app-video-item
+          *ngSwitchCase="'video'"
+          [item]="layer.item"
+          [muted]="layer.item.settings.muted ?? true"
+          [loop]="layer.item.settings.loop ?? false"
+          (ended)="onLayerEnded(layer, $event)">
+        </app-video-item>
+
+        <app-web-item
+          *ngSwitchCase="'webpage'"
+          [item]="layer.item"
+          [duration]="layer.item.duration || 10"
+          (ended)="onLayerEnded(layer, $event)">
+        </app-web-item>
+
+        <app-ticker-item
+          *ngSwitchCase="'ticker'"
+          [item]="layer.item"
+          [duration]="layer.item.duration || 10"
+          (ended)="onLayerEnded(layer, $event)">
+        </app-ticker-item>
+      </ng-container>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: block;
+      width: 100%;
+      height: 100%;
+      overflow: hidden;
+      position: relative;
+    }
+
+    .zone-item {
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background-color: #000;
+      z-index: 10;
+    }
+
+    .zone-item.entering {
+      z-index: 20;
+    }
+  `]
+})
+export class ZoneComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() zone: LayoutZoneId = 'sidebar';
+  @Input() items: PlaylistItem[] = [];
+  @Input() playlistId: string | null = null; // Recorded with every play
+
+  // The item on screen and, during a transition, the one coming in on top of it
+  current: ZoneLayer | null = null;
+  incoming: ZoneLayer | null = null;
+  transition: ItemTransition = { type: 'none', duration: 0 };
+
+  private layerKey = 0;
+  private subscriptions: Subscription[] = [];
+
+  constructor(private zonePlayback: ZonePlaybackService) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.zonePlayback.currentItem$.subscribe(item => this.showItem(item)),
+      this.zonePlayback.nextItem$.subscribe(item => {
+        this.incoming = item ? { key: ++this.layerKey, item } : null;
+      }),
+      this.zonePlayback.currentTransition$.subscribe(transition => this.transition = transition)
+    );
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['items'] || changes['zone']) {
+      this.zonePlayback.loadItems(this.zone, this.items, this.playlistId);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.zonePlayback.stop();
+  }
+
+  get layers(): ZoneLayer[] {
+    return [this.current, this.incoming].filter((layer): layer is ZoneLayer => !!layer);
+  }
+
+  // Keep the incoming layer once its item becomes the current one
+  private showItem(item: PlaylistItem | null): void {
+    if (!item) {
+      // Between the end of a transition and the next item the incoming layer stays up
+      if (!this.incoming) {
+        this.current = null;
+      }
+      return;
+    }
+
+    if (this.incoming?.item.id === item.id) {
+      this.current = this.incoming;
+      this.incoming = null;
+      return;
+    }
+
+    this.current = { key: ++this.layerKey, item };
+  }
+
+  trackByLayer(_index: number, layer: ZoneLayer): number {
+    return layer.key;
+  }
+
+  // State for the slotTransition animation, e.g. enter-wipe-left / leave-push
+  layerAnimation(layer: ZoneLayer): { value: string; params: { duration: number } } {
+    const value = this.incoming
+      ? `${layer === this.incoming ? 'enter' : 'leave'}-${this.transition.type}`
+      : 'active';
+    return { value, params: { duration: this.transition.duration } };
+  }
+
+  onLayerEnded(layer: ZoneLayer, reason: PlayEndReason): void {
+    // Ignore a leaving item that ends during the transition
+    if (layer === (this.incoming ?? this.current)) {
+      this.zonePlayback.skipToNext(reason);
+    }
+  }
+}
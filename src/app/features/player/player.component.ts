@@ -9,12 +9,30 @@ import { ScheduleService } from '../../core/services/schedule.service';
 import { HeartbeatService } from '../../core/services/heartbeat.service';
 import { LogService } from '../../core/services/log.service';
 import { SupabaseApiService } from '../../core/services/supabase-api.service';
-import { PlaylistItem } from '../../core/models/playlist.model';
+import { TimeZoneService } from '../../core/services/time-zone.service';
+import { PowerScheduleService } from '../../core/services/power-schedule.service';
+import { RemoteCommandService } from '../../core/services/remote-command.service';
+import { ScreenshotService } from '../../core/services/screenshot.service';
+import { AlertService } from '../../core/services/alert.service';
+import { ItemTransition, PlaylistItem, PlaylistLayout, PlaylistZones } from '../../core/models/playlist.model';
 import { PlayerState } from '../../core/models/player-state.model';
+import { PlayEndReason } from '../../core/models/proof-of-play.model';
+import { ScreenAlert } from '../../core/models/alert.model';
 import { ImageItemComponent } from './components/image-item.component';
 import { VideoItemComponent } from './components/video-item.component';
 import { WebItemComponent } from './components/web-item.component';
 import { TickerItemComponent } from './components/ticker-item.component';
+import { ZoneComponent } from './components/zone.component';
+import { AlertOverlayComponent } from './components/alert-overlay.component';
+import { environment } from '../../../environments/environment';
+import { slotTransition } from './animations/transitions';
+
+// One of the two buffers of the main zone; a new key mounts a fresh item component
+interface PlayerSlot {
+  key: number;
+  item: PlaylistItem | null;
+  startAt: number; // Seconds into the item, to continue it after an alert
+}
 
 @Component({
   selector: 'app-player',
@@ -24,20 +42,36 @@ import { TickerItemComponent } from './components/ticker-item.component';
     ImageItemComponent, 
     VideoItemComponent, 
     WebItemComponent, 
-    TickerItemComponent
+    TickerItemComponent,
+    ZoneComponent,
+    AlertOverlayComponent
   ],
   templateUrl: './player.component.html',
-  styleUrls: ['./player.component.scss']
+  styleUrls: ['./player.component.scss'],
+  animations: [slotTransition]
 })
 export class PlayerComponent implements OnInit, OnDestroy {
   currentItem: PlaylistItem | null = null;
   nextItem: PlaylistItem | null = null;
   isTransitioning = false;
+  
+  // Double buffer: one slot is visible, the other holds the next item, mounted
+  // hidden and already decoded, until it fades or slides in
+  slots: PlayerSlot[] = [{ key: 0, item: null, startAt: 0 }, { key: 1, item: null, startAt: 0 }];
+  activeSlot = 0;
+  incomingSlot: number | null = null;
+  transition: ItemTransition = { type: 'none', duration: 0 };
+  private slotKey = 1;
+  
+  layout: PlaylistLayout = { type: 'fullscreen' };
+  zoneItems: PlaylistZones = {};
   playerState$: Observable<PlayerState>;
   currentPlayerState: PlayerState | null = null;
   playbackError: string | null = null;
   isFullscreen = false;
   isOnline = navigator.onLine;
+  isSleeping = false;
+  activeAlert: ScreenAlert | null = null;
   
   private lastTimeCheck: number = 0;
   private preciseMinuteInterval: any = null;
@@ -54,6 +88,11 @@ export class PlayerComponent implements OnInit, OnDestroy {
     private heartbeatService: HeartbeatService,
     private logService: LogService,
     private supabaseApi: SupabaseApiService,
+    private timeZoneService: TimeZoneService,
+    private powerScheduleService: PowerScheduleService,
+    private remoteCommandService: RemoteCommandService,
+    private screenshotService: ScreenshotService,
+    private alertService: AlertService,
     private router: Router,
     private elementRef: ElementRef,
     private zone: NgZone
@@ -69,6 +108,12 @@ export class PlayerComponent implements OnInit, OnDestroy {
     this.setupPlayback();
     this.setupScheduleChecking();
     this.startHeartbeat();
+    this.setupPowerSchedule();
+    this.setupAlerts();
+    
+    // Keeps running on the diagnostics page so the screen stays reachable
+    this.remoteCommandService.start();
+    this.screenshotService.attach(this.elementRef.nativeElement);
     
     // Ensure we're in fullscreen mode
     this.enterFullscreen();
@@ -105,6 +150,9 @@ export class PlayerComponent implements OnInit, OnDestroy {
     if (this.preciseMinuteInterval) {
       clearInterval(this.preciseMinuteInterval);
     }
+    this.powerScheduleService.stop();
+    this.alertService.stop();
+    this.screenshotService.detach(this.elementRef.nativeElement);
     this.logService.info('Player stopped');
   }
   
@@ -189,7 +237,7 @@ export class PlayerComponent implements OnInit, OnDestroy {
     const currentItemSub = this.playbackService.currentItem$.subscribe(item => {
       // Wrap in NgZone to ensure change detection
       this.zone.run(() => {
-        this.currentItem = item;
+        this.showItem(item);
         if (item) {
           this.logService.info(`Playing item: ${item.name}`);
         }
@@ -199,14 +247,21 @@ export class PlayerComponent implements OnInit, OnDestroy {
     // Subscribe to next item changes
     const nextItemSub = this.playbackService.nextItem$.subscribe(item => {
       this.zone.run(() => {
-        this.nextItem = item;
+        this.bufferItem(item);
+      });
+    });
+
+    // Subscribe to the type of the upcoming transition
+    const transitionTypeSub = this.playbackService.currentTransition$.subscribe(transition => {
+      this.zone.run(() => {
+        this.transition = transition;
       });
     });
 
     // Subscribe to transition state
     const transitionSub = this.playbackService.isTransitioning$.subscribe(transitioning => {
       this.zone.run(() => {
-        this.isTransitioning = transitioning;
+        this.setTransitioning(transitioning);
       });
     });
 
@@ -227,7 +282,20 @@ export class PlayerComponent implements OnInit, OnDestroy {
       });
     });
 
-    this.subscriptions.push(currentItemSub, nextItemSub, transitionSub, errorSub, playerStateSub);
+    // Subscribe to the layout of the current playlist
+    const layoutSub = this.playbackService.currentLayout$.subscribe(layout => {
+      this.zone.run(() => {
+        this.layout = layout;
+      });
+    });
+    
+    const zoneItemsSub = this.playbackService.zoneItems$.subscribe(zones => {
+      this.zone.run(() => {
+        this.zoneItems = zones;
+      });
+    });
+
+    this.subscriptions.push(currentItemSub, nextItemSub, transitionTypeSub, transitionSub, errorSub, playerStateSub, layoutSub, zoneItemsSub);
 
     // Start playback
     this.playbackService.startPlayback();
@@ -242,8 +310,7 @@ export class PlayerComponent implements OnInit, OnDestroy {
     
     // Check more frequently - every 15 seconds instead of every minute
     this.scheduleCheckInterval = interval(15000).subscribe(() => {
-      const now = new Date();
-      this.logService.debug(`Schedule check at ${now.toTimeString()}`);
+      this.logService.debug(`Schedule check at ${this.timeZoneService.formatTime()}`);
       this.checkScheduleAndReload();
     });
     
@@ -292,6 +359,9 @@ export class PlayerComponent implements OnInit, OnDestroy {
         return;
       }
       
+      // Transition times are wall clock times at the screen
+      this.timeZoneService.setTimeZone(screen.settings?.timezone);
+      
       // Extract all unique transition times
       const transitionTimes = new Set<string>();
       screen.schedule.upcoming.forEach(schedule => {
@@ -312,20 +382,8 @@ export class PlayerComponent implements OnInit, OnDestroy {
   private setupTransitionTimeChecks(timeStr: string): void {
     const [hours, minutes] = timeStr.split(':').map(Number);
     
-    // Calculate milliseconds until the next occurrence of this time
-    const calculateMsToTime = (): number => {
-      const now = new Date();
-      const target = new Date();
-      
-      target.setHours(hours, minutes, 0, 0);
-      
-      // If the target time is already passed for today, schedule for tomorrow
-      if (now > target) {
-        target.setDate(target.getDate() + 1);
-      }
-      
-      return target.getTime() - now.getTime();
-    };
+    // Calculate milliseconds until the next occurrence of this time in the screen time zone
+    const calculateMsToTime = (): number => this.timeZoneService.msUntil(hours, minutes);
     
     // Set up targeted checks for this time
     const scheduleNextCheck = () => {
@@ -364,24 +422,138 @@ export class PlayerComponent implements OnInit, OnDestroy {
   // Add precise timing checks at minute boundaries
   private setupPreciseMinuteChecks(): void {
     // Check how many milliseconds until the next minute boundary
-    const now = new Date();
+    // (minute boundaries in the screen time zone, which matters for zones with odd offsets)
+    const now = this.timeZoneService.now();
     const msToNextMinute = (60 - now.getSeconds()) * 1000 - now.getMilliseconds();
     
     // Set up a timeout to check at the next minute boundary
     setTimeout(() => {
-      const exactMinute = new Date();
-      this.logService.info(`Precise minute check at ${exactMinute.toTimeString()}`);
+      this.logService.info(`Precise minute check at ${this.timeZoneService.formatTime()}`);
       this.checkScheduleAndReload();
       
       // Then set up an interval to check every minute precisely at the minute boundary
       this.preciseMinuteInterval = setInterval(() => {
-        const nextExactMinute = new Date();
-        this.logService.info(`Precise minute check at ${nextExactMinute.toTimeString()}`);
+        this.logService.info(`Precise minute check at ${this.timeZoneService.formatTime()}`);
         this.checkScheduleAndReload();
       }, 60000);
     }, msToNextMinute);
   }
 
+  // Show the current item, either by completing the transition to the buffered
+  // slot or, when nothing was buffered (first item, restart), in the visible slot
+  private showItem(item: PlaylistItem | null): void {
+    this.currentItem = item;
+    
+    if (!item) {
+      this.slots = [this.createSlot(null), this.createSlot(null)];
+      this.incomingSlot = null;
+      return;
+    }
+    
+    if (this.incomingSlot !== null && this.slots[this.incomingSlot].item?.id === item.id) {
+      const previousSlot = this.activeSlot;
+      this.activeSlot = this.incomingSlot;
+      this.incomingSlot = null;
+      this.slots[previousSlot] = this.createSlot(null);
+      return;
+    }
+    
+    this.incomingSlot = null;
+    this.slots[this.activeSlot] = this.createSlot(item, this.playbackService.currentItemOffset);
+  }
+  
+  // Mount the next item hidden in the slot that is not visible
+  private bufferItem(item: PlaylistItem | null): void {
+    this.nextItem = item;
+    
+    // Never replace the item that is fading in
+    if (this.incomingSlot !== null) {
+      return;
+    }
+    
+    const bufferSlot = 1 - this.activeSlot;
+    if (this.slots[bufferSlot].item !== item) {
+      this.slots[bufferSlot] = this.createSlot(item);
+    }
+  }
+  
+  // Start bringing in the buffered item
+  private setTransitioning(transitioning: boolean): void {
+    this.isTransitioning = transitioning;
+    
+    const bufferSlot = 1 - this.activeSlot;
+    if (transitioning && this.slots[bufferSlot].item) {
+      this.incomingSlot = bufferSlot;
+    }
+  }
+  
+  private createSlot(item: PlaylistItem | null, startAt = 0): PlayerSlot {
+    return { key: ++this.slotKey, item, startAt };
+  }
+  
+  trackBySlot(_index: number, slot: PlayerSlot): number {
+    return slot.key;
+  }
+  
+  // Only the visible (or incoming) slot plays, the other one is buffering
+  isBuffered(slotIndex: number): boolean {
+    return slotIndex !== (this.incomingSlot ?? this.activeSlot);
+  }
+  
+  // Role of a slot: shown, buffered behind, or coming in / going out
+  slotRole(slotIndex: number): 'active' | 'buffered' | 'entering' | 'leaving' {
+    if (slotIndex === this.incomingSlot) {
+      return 'entering';
+    }
+    if (slotIndex === this.activeSlot) {
+      return this.incomingSlot !== null ? 'leaving' : 'active';
+    }
+    return 'buffered';
+  }
+  
+  // State for the slotTransition animation, e.g. enter-wipe-left / leave-push
+  slotAnimation(slotIndex: number): { value: string; params: { duration: number } } {
+    const role = this.slotRole(slotIndex);
+    const value = role === 'entering' || role === 'leaving'
+      ? `${role === 'entering' ? 'enter' : 'leave'}-${this.transition.type}`
+      : role;
+    return { value, params: { duration: this.transition.duration } };
+  }
+  
+  onSlotEnded(slotIndex: number, reason: PlayEndReason): void {
+    // Ignore a leaving item that ends during the transition
+    if (!this.isBuffered(slotIndex)) {
+      this.playbackService.skipToNext(reason);
+    }
+  }
+  
+  // Zones are only shown when the layout asks for them and they have content
+  get hasSidebar(): boolean {
+    return this.layout.type.includes('sidebar') && !!this.zoneItems.sidebar?.length;
+  }
+  
+  get hasTicker(): boolean {
+    return this.layout.type.includes('ticker') && !!this.zoneItems.ticker?.length;
+  }
+  
+  get layoutClasses(): string[] {
+    const classes: string[] = [];
+    if (this.hasSidebar) {
+      classes.push(this.layout.sidebarPosition === 'left' ? 'with-sidebar-left' : 'with-sidebar');
+    }
+    if (this.hasTicker) {
+      classes.push('with-ticker');
+    }
+    return classes;
+  }
+  
+  get layoutStyle(): Record<string, string> {
+    return {
+      '--sidebar-width': `${this.layout.sidebarWidth || 25}%`,
+      '--ticker-height': `${this.layout.tickerHeight || 10}%`
+    };
+  }
+
   // Toggle fullscreen
   toggleFullscreen(): void {
     if (this.isFullscreen) {
@@ -459,8 +631,8 @@ export class PlayerComponent implements OnInit, OnDestroy {
     
     // Reset component state
     this.zone.run(() => {
-      this.currentItem = null;
-      this.nextItem = null;
+      this.showItem(null);
+      this.bufferItem(null);
       this.isTransitioning = false;
     });
     
@@ -474,18 +646,54 @@ export class PlayerComponent implements OnInit, OnDestroy {
   }
 
   private startHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      this.heartbeatInterval.unsubscribe();
+    }
+    
     // Send heartbeat immediately on startup
     this.sendHeartbeat();
     
-    // Send heartbeat every 60 seconds
-    this.heartbeatInterval = interval(60000).subscribe(() => {
+    // Send heartbeat every minute, less often while the display sleeps
+    const period = this.isSleeping ? environment.sleepHeartbeatInterval : environment.heartbeatInterval;
+    this.heartbeatInterval = interval(period).subscribe(() => {
       this.sendHeartbeat();
     });
   }
   
+  // Blank the screen outside the power schedule
+  private setupPowerSchedule(): void {
+    const sleepSub = this.powerScheduleService.isSleeping$.subscribe(sleeping => {
+      if (sleeping === this.isSleeping) {
+        return;
+      }
+      
+      this.zone.run(() => {
+        this.isSleeping = sleeping;
+      });
+      
+      // Report the new state right away and switch the heartbeat rate
+      this.startHeartbeat();
+    });
+    
+    this.subscriptions.push(sleepSub);
+    this.powerScheduleService.start();
+  }
+  
+  // Take over the screen with urgent alerts
+  private setupAlerts(): void {
+    const alertSub = this.alertService.activeAlert$.subscribe(alert => {
+      this.zone.run(() => {
+        this.activeAlert = alert;
+      });
+    });
+    
+    this.subscriptions.push(alertSub);
+    this.alertService.start();
+  }
+  
   private sendHeartbeat(): void {
     this.heartbeatService.sendHeartbeat({
-      status: this.playbackError ? 'error' : this.isPlaying() ? 'playing' : 'paused',
+      status: this.isSleeping ? 'sleeping' : this.playbackError ? 'error' : this.isPlaying() ? 'playing' : 'paused',
       currentItem: this.currentItem?.id,
       currentPlaylist: this.currentPlayerState?.currentPlaylistId || null,
       error: this.playbackError
@@ -8,6 +8,24 @@ export const environment = {
   logLevel: 0, // Debug level
   refreshInterval: 10000, // 10 seconds
   heartbeatInterval: 60000, // 1 minute
-  maxCacheSize: 500 * 1024 * 1024, // 500 MB
+  sleepHeartbeatInterval: 300000, // 5 minutes while the display sleeps
+  maxCacheSize: 500 * 1024 * 1024, // 500 MB, used when the browser doesn't report a storage quota
+  cacheQuotaFraction: 0.6, // Share of the storage quota the content cache may use
+  contentDownloads: {
+    maxConcurrent: 2,
+    maxBandwidthKbps: 0, // Average rate over chunked downloads, 0 for no limit
+    // Pre-caching of upcoming schedules only runs in this window (screen time zone), null for any time
+    quietHours: { start: '01:00', end: '05:00' } as { start: string; end: string } | null
+  },
+  commandPollInterval: 60000, // Fallback poll for remote commands when realtime is down
+  alertPollInterval: 30000, // Fallback poll for alerts when realtime is down
+  screenshots: {
+    bucket: 'screenshots', // One folder per screen ID
+    maxWidth: 1280,
+    quality: 0.7,
+    thumbnailInterval: 0, // Upload <screen>/thumbnail.jpg this often (ms), 0 to capture on request only
+    thumbnailWidth: 480
+  },
+  serviceWorker: true, // Offline app shell and media cache (sw.js)
   appVersion: '1.0.0'
 };
\ No newline at end of file
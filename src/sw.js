@@ -0,0 +1,180 @@
+// sw.js
+// Offline shell for the player. Keeps the app itself loadable without a network
+// and serves media that the player requests directly (when ContentSyncService
+// falls back to the original URL) from the Cache API. Content served through
+// blob: URLs from IndexedDB never reaches this worker.
+
+const SHELL_CACHE = 'signage-shell-v1';
+const MEDIA_CACHE = 'signage-media-v1';
+const MAX_MEDIA_ENTRIES = 100;
+const MEDIA_DESTINATIONS = ['image', 'video', 'audio'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key !== SHELL_CACHE && key !== MEDIA_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (MEDIA_DESTINATIONS.includes(request.destination)) {
+    event.respondWith(handleMedia(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleShellAsset(request));
+  }
+  // Everything else (Supabase API, realtime, content downloads) goes straight to the network
+});
+
+/**
+ * Cache index.html together with the bundles and styles it references
+ */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch('index.html', { cache: 'no-cache' });
+  if (!response.ok) {
+    return;
+  }
+
+  await cache.put('index.html', response.clone());
+  const html = await response.text();
+
+  const assets = new Set(['favicon.ico']);
+  for (const match of html.matchAll(/(?:src|href)="([^"]+\.(?:js|css|ico|woff2?))"/g)) {
+    if (!/^(https?:)?\/\//.test(match[1])) {
+      assets.add(match[1]);
+    }
+  }
+
+  // A missing asset shouldn't stop the worker from installing
+  await Promise.all([...assets].map(asset => cache.add(asset).catch(() => undefined)));
+}
+
+/**
+ * Network first so a new release is picked up, the cached shell when offline
+ */
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('index.html', { cacheName: SHELL_CACHE });
+    return cached || Response.error();
+  }
+}
+
+/**
+ * Bundles are content-hashed, so the cached copy is served and refreshed in the background.
+ * Lazy-loaded chunks are cached the first time the player loads them.
+ */
+async function handleShellAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  return cached || network;
+}
+
+/**
+ * Cache first for media. Range requests (video seeking) are answered from the
+ * cached full file; partial responses are never cached.
+ */
+async function handleMedia(request) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  const range = request.headers.get('Range');
+
+  if (cached) {
+    return range ? createRangeResponse(cached, range) : cached;
+  }
+
+  try {
+    const response = await fetch(request);
+
+    // Only full, readable responses can be replayed later. Ranged and opaque
+    // media is left to the download queue of ContentSyncService.
+    if (response.status === 200 && response.type !== 'opaque') {
+      await cache.put(request.url, response.clone());
+      trimMediaCache(cache);
+    }
+    return response;
+  } catch (error) {
+    return Response.error();
+  }
+}
+
+async function createRangeResponse(response, range) {
+  const blob = await response.blob();
+  const match = /bytes=(\d*)-(\d*)/.exec(range);
+  if (!match) {
+    return new Response(blob, { status: 200, headers: response.headers });
+  }
+
+  let start = match[1] === '' ? null : parseInt(match[1], 10);
+  let end = match[2] === '' ? null : parseInt(match[2], 10);
+
+  // "bytes=-500" asks for the last 500 bytes
+  if (start === null) {
+    start = Math.max(0, blob.size - (end || 0));
+    end = blob.size - 1;
+  } else if (end === null || end >= blob.size) {
+    end = blob.size - 1;
+  }
+
+  if (start >= blob.size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${blob.size}` }
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || blob.type,
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes'
+    }
+  });
+}
+
+/**
+ * Keep the media cache bounded; the IndexedDB cache holds the full content set
+ */
+async function trimMediaCache(cache) {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_MEDIA_ENTRIES;
+  for (let i = 0; i < excess; i++) {
+    await cache.delete(keys[i]);
+  }
+}